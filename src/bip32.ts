@@ -0,0 +1,214 @@
+import { encodeBase58 } from "./codec";
+import { webCryptoProvider } from "./crypto_provider";
+import { InvalidParameterError, InvalidPathError } from "./errors";
+import { hash160 } from "./hashes";
+import { IBip32Node, ICryptoProvider } from "./interfaces";
+import { decodeBigInt, encodeBigInt } from "./utils";
+import { SECP256K1, compressPoint, multiplyGenerator } from "./weierstrass";
+
+// The HMAC key of the master key generation.
+const BIP32_SEED_KEY = "Bitcoin seed";
+
+// The child indices from 2^31 on are hardened.
+export const HARDENED_OFFSET = 0x80000000;
+
+// The child indices are unsigned 32-bit integers.
+const MAX_CHILD_INDEX = 0xffffffff;
+
+// The version bytes of the mainnet extended keys.
+const XPRV_VERSION = 0x0488ade4;
+const XPUB_VERSION = 0x0488b21e;
+
+function encodeUint32(value: number): number[] {
+  return [24, 16, 8, 0].map((shift) => (value >>> shift) & 0xff);
+}
+
+//
+// Checks that the child index is an unsigned 32-bit integer, shared by the
+// BIP32 and SLIP-0010 derivations.
+//
+export function validateChildIndex(index: number): void {
+  if (!Number.isInteger(index) || index < 0 || index > MAX_CHILD_INDEX) {
+    throw new InvalidPathError(
+      `Invalid child index (${String(index)}). Expected between 0 and ${String(MAX_CHILD_INDEX)}.`,
+      { actual: index },
+    );
+  }
+}
+
+function decodeUint32(bytes: number[]): number {
+  return Number(decodeBigInt(bytes.slice(0, 4)));
+}
+
+async function encodeBase58Check(
+  payload: number[],
+  cryptoProvider: ICryptoProvider,
+): Promise<string> {
+  const checksum = (
+    await cryptoProvider.sha256(await cryptoProvider.sha256(payload))
+  ).slice(0, 4);
+  return encodeBase58(payload.concat(checksum));
+}
+
+async function serialize(
+  version: number,
+  depth: number,
+  parentFingerprint: number,
+  index: number,
+  chainCode: number[],
+  key: number[],
+  cryptoProvider: ICryptoProvider,
+): Promise<string> {
+  return encodeBase58Check(
+    encodeUint32(version)
+      .concat(depth)
+      .concat(encodeUint32(parentFingerprint))
+      .concat(encodeUint32(index))
+      .concat(chainCode)
+      .concat(key),
+    cryptoProvider,
+  );
+}
+
+async function createNode(
+  depth: number,
+  index: number,
+  parentFingerprint: number,
+  privateKey: number[],
+  chainCode: number[],
+  cryptoProvider: ICryptoProvider,
+): Promise<IBip32Node> {
+  const publicKey = compressPoint(
+    multiplyGenerator(SECP256K1, decodeBigInt(privateKey)),
+  );
+
+  return {
+    depth: depth,
+    index: index,
+    parentFingerprint: parentFingerprint,
+    fingerprint: decodeUint32(await hash160(publicKey, cryptoProvider)),
+    chainCode: chainCode,
+    privateKey: privateKey,
+    publicKey: publicKey,
+    xprv: await serialize(
+      XPRV_VERSION,
+      depth,
+      parentFingerprint,
+      index,
+      chainCode,
+      [0].concat(privateKey),
+      cryptoProvider,
+    ),
+    xpub: await serialize(
+      XPUB_VERSION,
+      depth,
+      parentFingerprint,
+      index,
+      chainCode,
+      publicKey,
+      cryptoProvider,
+    ),
+  };
+}
+
+function isValidPrivateKey(key: bigint): boolean {
+  return key > BigInt(0) && key < SECP256K1.n;
+}
+
+//
+// Derives the BIP32 master key of the wallet of a SLIP39 backup, which uses
+// the master secret as the BIP32 seed. The fingerprint of the master key
+// identifies the wallet, e.g. to show which wallet a share set unlocks.
+//
+export async function deriveBip32Root(
+  masterSecret: number[],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<IBip32Node> {
+  const key = Array.from(BIP32_SEED_KEY, (char) => char.charCodeAt(0));
+  const I = await cryptoProvider.hmacSha512(key, masterSecret);
+  const IL = I.slice(0, 32);
+
+  if (!isValidPrivateKey(decodeBigInt(IL))) {
+    throw new InvalidParameterError(
+      "The master secret does not result in a valid BIP32 master key.",
+    );
+  }
+  return createNode(0, 0, 0, IL, I.slice(32), cryptoProvider);
+}
+
+//
+// Derives the child of the private key at the index. Indices from 2^31 on
+// are hardened.
+//
+export async function deriveBip32Child(
+  parent: IBip32Node,
+  index: number,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<IBip32Node> {
+  validateChildIndex(index);
+
+  const data =
+    index >= HARDENED_OFFSET
+      ? [0].concat(parent.privateKey)
+      : parent.publicKey.slice();
+  const I = await cryptoProvider.hmacSha512(
+    parent.chainCode,
+    data.concat(encodeUint32(index)),
+  );
+  const IL = decodeBigInt(I.slice(0, 32));
+  const key = (IL + decodeBigInt(parent.privateKey)) % SECP256K1.n;
+
+  // The probability is lower than 1 in 2^127.
+  if (IL >= SECP256K1.n || key === BigInt(0)) {
+    throw new InvalidParameterError(
+      `The child index (${String(index)}) does not result in a valid key. Proceed with the next index.`,
+      { actual: index },
+    );
+  }
+
+  return createNode(
+    parent.depth + 1,
+    index,
+    parent.fingerprint,
+    encodeBigInt(key, 32),
+    I.slice(32),
+    cryptoProvider,
+  );
+}
+
+//
+// Parses a path like "m/44'/0'/0'/0/0" into child indices. Hardened indices
+// are marked with an apostrophe or "h".
+//
+export function parseBip32Path(path: string): number[] {
+  if (!/^m(\/\d+['hH]?)*$/.test(path)) {
+    throw new InvalidPathError(`Expected valid path e.g. "m/44'/0'/0'".`);
+  }
+
+  return path
+    .split("/")
+    .slice(1)
+    .map((item) => {
+      const hardened = /['hH]$/.test(item);
+      const index = parseInt(item, 10);
+      if (index >= HARDENED_OFFSET) {
+        throw new InvalidPathError(
+          `Invalid path index (${item}). Expected less than ${String(HARDENED_OFFSET)}.`,
+          { actual: index },
+        );
+      }
+      return hardened ? index + HARDENED_OFFSET : index;
+    });
+}
+
+export async function deriveBip32Path(
+  root: IBip32Node,
+  path: string,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<IBip32Node> {
+  let node = root;
+  for (const index of parseBip32Path(path)) {
+    node = await deriveBip32Child(node, index, cryptoProvider);
+  }
+  return node;
+}
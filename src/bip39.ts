@@ -0,0 +1,146 @@
+import { BIP39_WORD_LIST } from "./bip39_wordlist";
+import { webCryptoProvider } from "./crypto_provider";
+import {
+  InvalidChecksumError,
+  InvalidMnemonicError,
+  InvalidParameterError,
+  InvalidWordError,
+} from "./errors";
+import { ICryptoProvider } from "./interfaces";
+
+// The length of a BIP39 word in bits.
+const BIP39_RADIX_BITS = 11;
+
+// The allowed lengths of the BIP39 entropy in bytes.
+const BIP39_ENTROPY_LENGTHS = [16, 20, 24, 28, 32];
+
+// The number of PBKDF2 iterations used to derive the BIP39 seed.
+const BIP39_SEED_ITERATION_COUNT = 2048;
+
+// A Map, as a plain object would resolve e.g. "constructor".
+const BIP39_WORD_LIST_MAP = new Map(
+  BIP39_WORD_LIST.map((word, idx) => [word, idx]),
+);
+
+function bytesToBits(bytes: number[]): string {
+  return bytes.map((item) => item.toString(2).padStart(8, "0")).join("");
+}
+
+//
+// The checksum is the first `entropy bits / 32` bits of the SHA-256 hash of
+// the entropy.
+//
+async function checksumBits(
+  entropy: number[],
+  cryptoProvider: ICryptoProvider,
+): Promise<string> {
+  const hash = await cryptoProvider.sha256(entropy);
+  return bytesToBits(hash).slice(0, (entropy.length * 8) / 32);
+}
+
+//
+// Encodes the entropy, e.g. a 16 or 32 byte SLIP39 master secret, as a BIP39
+// mnemonic.
+//
+export async function bip39EntropyToMnemonic(
+  entropy: number[],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<string> {
+  if (!BIP39_ENTROPY_LENGTHS.includes(entropy.length)) {
+    throw new InvalidParameterError(
+      `Invalid BIP39 entropy length (${String(entropy.length)} bytes). Expected ${BIP39_ENTROPY_LENGTHS.join(", ")} bytes.`,
+      { actual: entropy.length },
+    );
+  }
+
+  const bits =
+    bytesToBits(entropy) + (await checksumBits(entropy, cryptoProvider));
+  const words: string[] = [];
+  for (let i = 0; i < bits.length; i += BIP39_RADIX_BITS) {
+    words.push(
+      BIP39_WORD_LIST[parseInt(bits.slice(i, i + BIP39_RADIX_BITS), 2)],
+    );
+  }
+  return words.join(" ");
+}
+
+//
+// Decodes the entropy of a BIP39 mnemonic and verifies its checksum.
+//
+export async function bip39MnemonicToEntropy(
+  mnemonic: string,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<number[]> {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/);
+  const entropyBits = (words.length * BIP39_RADIX_BITS * 32) / 33;
+  if (!BIP39_ENTROPY_LENGTHS.includes(entropyBits / 8)) {
+    throw new InvalidMnemonicError(
+      `Invalid BIP39 mnemonic length (${String(words.length)} words). Expected 12, 15, 18, 21 or 24 words.`,
+      { actual: words.length },
+    );
+  }
+
+  const bits = words
+    .map((word, wordPosition) => {
+      const idx = BIP39_WORD_LIST_MAP.get(word);
+      if (typeof idx === "undefined") {
+        throw new InvalidWordError(`Invalid BIP39 mnemonic word ${word}.`, {
+          word: word,
+          wordPosition: wordPosition,
+        });
+      }
+      return idx.toString(2).padStart(BIP39_RADIX_BITS, "0");
+    })
+    .join("");
+
+  const entropy: number[] = [];
+  for (let i = 0; i < entropyBits; i += 8) {
+    entropy.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+
+  if (
+    bits.slice(entropyBits) !== (await checksumBits(entropy, cryptoProvider))
+  ) {
+    throw new InvalidChecksumError("Invalid BIP39 mnemonic checksum");
+  }
+  return entropy;
+}
+
+export async function validateBip39Mnemonic(
+  mnemonic: string,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<boolean> {
+  try {
+    await bip39MnemonicToEntropy(mnemonic, cryptoProvider);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+//
+// Derives the 64 byte BIP39 seed, i.e. the BIP32 seed of the wallet of a
+// BIP39 mnemonic. Note that it is not the entropy: the wallet of a SLIP39
+// backup of the entropy uses the entropy itself as the BIP32 seed, and thus
+// differs from the wallet of the BIP39 mnemonic.
+//
+export async function bip39MnemonicToSeed(
+  mnemonic: string,
+  passphrase = "",
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<number[]> {
+  // Only valid mnemonics are accepted, although the seed derivation itself
+  // does not depend on it.
+  await bip39MnemonicToEntropy(mnemonic, cryptoProvider);
+
+  const encoder = new TextEncoder();
+  const normalized = mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+  const salt = "mnemonic" + passphrase.normalize("NFKD");
+
+  return cryptoProvider.pbkdf2Sha512(
+    Array.from(encoder.encode(normalized.normalize("NFKD"))),
+    Array.from(encoder.encode(salt)),
+    BIP39_SEED_ITERATION_COUNT,
+    64,
+  );
+}
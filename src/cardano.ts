@@ -0,0 +1,42 @@
+import { encodeBech32 } from "./codec";
+import { webCryptoProvider } from "./crypto_provider";
+import { ICardanoRootKey, ICryptoProvider } from "./interfaces";
+
+// The PBKDF2 parameters of the Icarus master key generation (CIP-3).
+const ICARUS_ITERATION_COUNT = 4096;
+const ICARUS_KEY_LENGTH = 96;
+
+// The human readable part of the bech32 encoded root private key (CIP-5).
+const ROOT_XSK_PREFIX = "root_xsk";
+
+//
+// Derives the Icarus root key of the Cardano wallet of the master secret, as
+// Cardano wallets accepting SLIP39 backups do: the master secret takes the
+// place of the BIP39 entropy, and the passphrase, the same one used to
+// decrypt the master secret, is the PBKDF2 password. The 96 byte extended key
+// consists of the clamped 64 byte Ed25519 extended private key followed by
+// the 32 byte chain code.
+//
+export async function deriveCardanoRootKey(
+  masterSecret: number[],
+  passphrase = "",
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<ICardanoRootKey> {
+  const extendedKey = await cryptoProvider.pbkdf2Sha512(
+    Array.from(new TextEncoder().encode(passphrase)),
+    masterSecret,
+    ICARUS_ITERATION_COUNT,
+    ICARUS_KEY_LENGTH,
+  );
+  // Clamping of the scalar: the lowest 3 bits and the highest 3 bits of the
+  // first 32 bytes are cleared, and the second highest bit is set.
+  extendedKey[0] &= 0xf8;
+  extendedKey[31] &= 0x1f;
+  extendedKey[31] |= 0x40;
+
+  return {
+    extendedKey: extendedKey,
+    chainCode: extendedKey.slice(64),
+    rootXsk: encodeBech32(ROOT_XSK_PREFIX, extendedKey),
+  };
+}
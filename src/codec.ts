@@ -0,0 +1,249 @@
+import { InvalidEncodingError, InvalidParameterError } from "./errors";
+
+const HEX_ALPHABET = "0123456789abcdef";
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+//
+// Checks that every item is an integer byte value, as a number[] secret can
+// hold anything.
+//
+function toBytes(bytes: Uint8Array | number[]): Uint8Array {
+  bytes.forEach((item: number, idx: number) => {
+    if (!Number.isInteger(item) || item < 0 || item > 255) {
+      throw new InvalidParameterError(
+        `Invalid byte value (${String(item)}) at index ${String(idx)}. Expected an integer between 0 and 255.`,
+        { actual: item },
+      );
+    }
+  });
+  return Uint8Array.from(bytes);
+}
+
+//
+// Encodes the bytes as a lowercase hex string, two digits per byte.
+//
+export function encodeHex(bytes: Uint8Array | number[]): string {
+  return Array.from(toBytes(bytes), (item) => {
+    return HEX_ALPHABET[item >> 4] + HEX_ALPHABET[item & 0x0f];
+  }).join("");
+}
+
+//
+// Decodes a hex string of either case. Unlike `encodeHexString`, which
+// returns the character codes of a string, it requires an even number of hex
+// digits and nothing else, not even a "0x" prefix or whitespace.
+//
+export function decodeHex(hex: string): Uint8Array {
+  if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new InvalidEncodingError(
+      "Invalid hex string. Expected an even number of hex digits.",
+      { actual: hex.length },
+    );
+  }
+
+  const result = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = parseInt(hex.slice(2 * i, 2 * i + 2), 16);
+  }
+  return result;
+}
+
+//
+// Encodes the bytes as padded base64 with the standard alphabet (RFC 4648).
+//
+export function encodeBase64(bytes: Uint8Array | number[]): string {
+  const data = toBytes(bytes);
+  let result = "";
+
+  for (let i = 0; i < data.length; i += 3) {
+    // The chunk is zero padded to three bytes.
+    const chunk = new Uint8Array(3);
+    chunk.set(data.subarray(i, i + 3));
+    const length = Math.min(3, data.length - i);
+    const value = (chunk[0] << 16) | (chunk[1] << 8) | chunk[2];
+    for (let j = 0; j < 4; j++) {
+      result +=
+        j <= length ? BASE64_ALPHABET[(value >> (18 - 6 * j)) & 0x3f] : "=";
+    }
+  }
+  return result;
+}
+
+//
+// Decodes padded base64 with the standard alphabet. Missing padding,
+// whitespace, characters of the URL-safe alphabet and non-zero trailing bits
+// are rejected, so every byte array has exactly one valid encoding.
+//
+export function decodeBase64(base64: string): Uint8Array {
+  if (base64.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+    throw new InvalidEncodingError(
+      "Invalid base64 string. Expected padded base64 with the standard alphabet.",
+      { actual: base64.length },
+    );
+  }
+
+  const padding = base64.length - base64.replace(/=+$/, "").length;
+  const result = new Uint8Array((base64.length / 4) * 3 - padding);
+
+  for (let i = 0; i < base64.length; i += 4) {
+    let value = 0;
+    for (let j = 0; j < 4; j++) {
+      const char = base64[i + j];
+      value = (value << 6) | (char === "=" ? 0 : BASE64_ALPHABET.indexOf(char));
+    }
+
+    const offset = (i / 4) * 3;
+    for (let j = 0; j < 3 && offset + j < result.length; j++) {
+      result[offset + j] = (value >> (16 - 8 * j)) & 0xff;
+    }
+
+    const unused = offset + 3 - result.length;
+    if (unused > 0 && (value & ((1 << (8 * unused)) - 1)) !== 0) {
+      throw new InvalidEncodingError(
+        "Invalid base64 string. The unused bits of the last character must be zero.",
+      );
+    }
+  }
+  return result;
+}
+
+//
+// Encodes the bytes with the Bitcoin base58 alphabet. Every leading zero byte
+// is encoded as a leading "1".
+//
+export function encodeBase58(bytes: Uint8Array | number[]): string {
+  const data = toBytes(bytes);
+  let zeros = 0;
+  while (zeros < data.length && data[zeros] === 0) {
+    zeros++;
+  }
+
+  // Base58 digits, least significant first.
+  const digits: number[] = [];
+  for (let i = zeros; i < data.length; i++) {
+    let carry = data[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  return (
+    "1".repeat(zeros) +
+    digits
+      .reverse()
+      .map((digit) => BASE58_ALPHABET[digit])
+      .join("")
+  );
+}
+
+//
+// Decodes a string of the Bitcoin base58 alphabet.
+//
+export function decodeBase58(base58: string): Uint8Array {
+  let zeros = 0;
+  while (zeros < base58.length && base58[zeros] === "1") {
+    zeros++;
+  }
+
+  // Bytes, least significant first.
+  const bytes: number[] = [];
+  for (let i = zeros; i < base58.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(base58[i]);
+    if (carry < 0) {
+      throw new InvalidEncodingError(
+        `Invalid base58 string. Unexpected character "${base58[i]}" at index ${String(i)}.`,
+      );
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const result = new Uint8Array(zeros + bytes.length);
+  result.set(bytes.reverse(), zeros);
+  return result;
+}
+
+const BECH32_ALPHABET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32_GENERATORS = [
+  0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3,
+];
+
+function bech32Polymod(values: number[]): number {
+  let chk = 1;
+  values.forEach((value) => {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATORS.forEach((generator, i) => {
+      if ((top >>> i) & 1) {
+        chk ^= generator;
+      }
+    });
+  });
+  return chk >>> 0;
+}
+
+//
+// Encodes the bytes as bech32 (BIP173) with the human readable part. Unlike
+// BIP173, the length is not limited to 90 characters, as e.g. the 96 byte
+// Cardano extended keys are longer.
+//
+export function encodeBech32(
+  hrp: string,
+  bytes: Uint8Array | number[],
+): string {
+  if (!/^[\x21-\x7e]+$/.test(hrp) || hrp.toLowerCase() !== hrp) {
+    throw new InvalidParameterError(
+      `Invalid bech32 human readable part (${hrp}). Expected lowercase printable ASCII characters.`,
+    );
+  }
+
+  // Regrouping of the 8 bit bytes into zero padded 5 bit words.
+  const words: number[] = [];
+  let accumulator = 0;
+  let bits = 0;
+  toBytes(bytes).forEach((item) => {
+    accumulator = ((accumulator << 8) | item) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      words.push((accumulator >>> bits) & 31);
+    }
+  });
+  if (bits > 0) {
+    words.push((accumulator << (5 - bits)) & 31);
+  }
+
+  const expandedHrp = Array.from(hrp, (char) => char.charCodeAt(0) >> 5)
+    .concat(0)
+    .concat(Array.from(hrp, (char) => char.charCodeAt(0) & 31));
+  const polymod =
+    bech32Polymod(expandedHrp.concat(words, [0, 0, 0, 0, 0, 0])) ^ 1;
+  const checksum = [0, 1, 2, 3, 4, 5].map(
+    (i) => (polymod >>> (5 * (5 - i))) & 31,
+  );
+
+  return (
+    hrp +
+    "1" +
+    words
+      .concat(checksum)
+      .map((word) => BECH32_ALPHABET[word])
+      .join("")
+  );
+}
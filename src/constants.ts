@@ -38,6 +38,9 @@ export const CUSTOMIZATION_STRING_NON_EXTENDABLE = "shamir";
 // The customization string used in RS1024 checksum when the extendable backup flag is set.
 export const CUSTOMIZATION_STRING_EXTENDABLE = "shamir_extendable";
 
+// The length of the shortest prefix that identifies a word of the wordlist.
+export const UNIQUE_PREFIX_LENGTH = 4;
+
 // The minimum allowed entropy of the master secret.
 export const MIN_ENTROPY_BITS = 128;
 
@@ -50,6 +53,14 @@ export const MNEMONICS_WORDS_LENGTH = Math.floor(
   METADATA_WORDS_LENGTH + (MIN_ENTROPY_BITS + RADIX_BITS - 1) / RADIX_BITS,
 );
 
+// The maximum allowed entropy of the master secret.
+export const MAX_ENTROPY_BITS = 256;
+
+// The maximum length of the mnemonic in words, i.e. of a share of a 256-bit master secret.
+export const MAX_MNEMONIC_WORDS = Math.floor(
+  METADATA_WORDS_LENGTH + (MAX_ENTROPY_BITS + RADIX_BITS - 1) / RADIX_BITS,
+);
+
 // The minimum number of iterations to use in PBKDF2.
 export const ITERATION_COUNT = 10000;
 
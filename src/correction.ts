@@ -0,0 +1,261 @@
+import {
+  CHECKSUM_WORDS_LENGTH,
+  EXTENDABLE_BACKUP_FLAG_BITS_LENGTH,
+  ITERATION_EXP_BITS_LENGTH,
+  ITERATION_EXP_WORDS_LENGTH,
+  RADIX_BITS,
+  UNIQUE_PREFIX_LENGTH,
+  WORD_LIST,
+  WORD_LIST_MAP,
+} from "./constants";
+import { InvalidParameterError } from "./errors";
+import { IDecodedMnemonic, IMnemonicCorrection } from "./interfaces";
+import {
+  decodeMnemonic,
+  intFromIndices,
+  mnemonicFromIndices,
+  rs1024Residue,
+  rs1024VerifyChecksum,
+  validateMnemonic,
+} from "./slip39_helper";
+import { generateArray } from "./utils";
+import { completeWord, resolveWord } from "./words";
+
+//
+// The extendable backup flag, which selects the customization string of the
+// checksum, is encoded in the first words of the mnemonic.
+//
+function extendableBackupFlagOf(data: number[]): number {
+  const idExpExtInt = Number(
+    intFromIndices(data.slice(0, ITERATION_EXP_WORDS_LENGTH)),
+  );
+  return (
+    (idExpExtInt >> ITERATION_EXP_BITS_LENGTH) &
+    ((1 << EXTENDABLE_BACKUP_FLAG_BITS_LENGTH) - 1)
+  );
+}
+
+function isValidShareData(data: number[]): boolean {
+  return (
+    rs1024VerifyChecksum(data, extendableBackupFlagOf(data)) &&
+    validateMnemonic(mnemonicFromIndices(data))
+  );
+}
+
+//
+// The Levenshtein distance of two words.
+//
+function editDistance(a: string, b: string): number {
+  let previous = Array.from(Array(b.length + 1), (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current.push(
+        Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+//
+// Suggests the corrections of a mnemonic with a single wrong word or with two
+// swapped adjacent words. Every candidate substitution is checked against the
+// RS1024 checksum, which detects any error affecting at most three words, so
+// that only the corrections resulting in a valid mnemonic are returned, ranked
+// by the edit distance of the replaced word.
+//
+export function suggestCorrections(mnemonic: string): IMnemonicCorrection[] {
+  const words = mnemonic.trim().toLowerCase().split(/\s+/);
+  if (validateMnemonic(words.join(" "))) {
+    return [];
+  }
+
+  // Abbreviated words are resolved, any other word is treated as unknown.
+  const data = words.map((word) => {
+    const candidates =
+      word.length < UNIQUE_PREFIX_LENGTH ? [] : completeWord(word);
+    return candidates.length === 1 ? WORD_LIST_MAP[candidates[0]] : undefined;
+  });
+  const allPositions = generateArray([], words.length) as number[];
+  const unknown = allPositions.filter(
+    (position) => typeof data[position] === "undefined",
+  );
+
+  // Only a single word can be replaced.
+  if (unknown.length > 1) {
+    return [];
+  }
+
+  const corrections: IMnemonicCorrection[] = [];
+  const positions = unknown.length === 1 ? unknown : allPositions;
+
+  positions.forEach((position) => {
+    const original = words[position];
+    WORD_LIST.forEach((replacement, index) => {
+      if (index === data[position]) {
+        return;
+      }
+
+      const candidate = data.slice();
+      candidate[position] = index;
+      if (isValidShareData(candidate)) {
+        corrections.push({
+          mnemonic: mnemonicFromIndices(candidate),
+          kind: "substitution",
+          position: position,
+          original: original,
+          replacement: replacement,
+          distance: editDistance(original, replacement),
+        });
+      }
+    });
+  });
+
+  if (unknown.length === 0) {
+    for (let position = 0; position < data.length - 1; position++) {
+      if (data[position] === data[position + 1]) {
+        continue;
+      }
+
+      const candidate = data.slice();
+      candidate[position] = data[position + 1];
+      candidate[position + 1] = data[position];
+      if (isValidShareData(candidate)) {
+        corrections.push({
+          mnemonic: mnemonicFromIndices(candidate),
+          kind: "transposition",
+          position: position,
+          original: `${words[position]} ${words[position + 1]}`,
+          replacement: `${words[position + 1]} ${words[position]}`,
+          // A transposition is counted as a single edit.
+          distance: 1,
+        });
+      }
+    }
+  }
+
+  return corrections.sort(
+    (a, b) => a.distance - b.distance || a.position - b.position,
+  );
+}
+
+//
+// Solves the system of linear equations over GF(2) given by its columns, i.e.
+// finds the set of columns whose XOR is the target. Returns the bitmask of the
+// columns in the solution, or -1 if there is none.
+//
+function solveGF2(columns: number[], target: number): number {
+  const basis: { value: number; mask: number; pivot: number }[] = [];
+
+  const reduce = (value: number, mask: number): [number, number] => {
+    basis.forEach((item) => {
+      if ((value >> item.pivot) & 1) {
+        value ^= item.value;
+        mask ^= item.mask;
+      }
+    });
+    return [value, mask];
+  };
+
+  columns.forEach((column, k) => {
+    const [value, mask] = reduce(column, 1 << k);
+    if (value !== 0) {
+      basis.push({ value: value, mask: mask, pivot: 31 - Math.clz32(value) });
+    }
+  });
+
+  const [rest, mask] = reduce(target, 0);
+  return rest === 0 ? mask : -1;
+}
+
+function isConsistent(
+  candidate: IDecodedMnemonic,
+  others: IDecodedMnemonic[],
+): boolean {
+  return others.every((other) => {
+    if (
+      candidate.identifier !== other.identifier ||
+      candidate.extendableBackupFlag !== other.extendableBackupFlag ||
+      candidate.iterationExponent !== other.iterationExponent ||
+      candidate.groupThreshold !== other.groupThreshold ||
+      candidate.groupCount !== other.groupCount ||
+      candidate.share.length !== other.share.length
+    ) {
+      return false;
+    }
+    if (candidate.groupIndex !== other.groupIndex) {
+      return true;
+    }
+    return candidate.memberThreshold === other.memberThreshold;
+  });
+}
+
+//
+// Recovers up to three unreadable words of a mnemonic at known positions
+// (given as `null`). As the RS1024 checksum is three words long, and it is
+// linear over GF(2), the missing words are the solution of a system of linear
+// equations, which is solved for both customization strings. The candidates
+// must also be consistent with the metadata of the other mnemonics of the set.
+//
+export function recoverErasures(
+  words: (string | null)[],
+  mnemonics: string[] = [],
+): string[] {
+  const erasures = (generateArray([], words.length) as number[]).filter(
+    (position) => words[position] === null,
+  );
+
+  if (erasures.length > CHECKSUM_WORDS_LENGTH) {
+    throw new InvalidParameterError(
+      `Too many unreadable words (${String(erasures.length)}). At most ${String(CHECKSUM_WORDS_LENGTH)} words can be recovered.`,
+      { expected: CHECKSUM_WORDS_LENGTH, actual: erasures.length },
+    );
+  }
+
+  const data = words.map((word) => (word === null ? 0 : resolveWord(word)));
+
+  const others = mnemonics.map((mnemonic) => decodeMnemonic(mnemonic));
+  const candidates = new Set<string>();
+
+  [0, 1].forEach((extendableBackupFlag) => {
+    const zero = rs1024Residue(
+      data.map(() => 0),
+      extendableBackupFlag,
+    );
+    // The contribution of every bit of every missing word to the residue.
+    const columns: number[] = [];
+    erasures.forEach((position) => {
+      for (let bit = 0; bit < RADIX_BITS; bit++) {
+        const unit = data.map(() => 0);
+        unit[position] = 1 << bit;
+        columns.push(rs1024Residue(unit, extendableBackupFlag) ^ zero);
+      }
+    });
+
+    const target = rs1024Residue(data, extendableBackupFlag) ^ 1;
+    const solution = solveGF2(columns, target);
+    if (solution < 0) {
+      return;
+    }
+
+    const candidate = data.slice();
+    erasures.forEach((position, i) => {
+      candidate[position] =
+        (solution >> (i * RADIX_BITS)) & ((1 << RADIX_BITS) - 1);
+    });
+
+    const mnemonic = mnemonicFromIndices(candidate);
+    if (
+      extendableBackupFlagOf(candidate) === extendableBackupFlag &&
+      validateMnemonic(mnemonic) &&
+      isConsistent(decodeMnemonic(mnemonic), others)
+    ) {
+      candidates.add(mnemonic);
+    }
+  });
+
+  return Array.from(candidates);
+}
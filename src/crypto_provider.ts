@@ -0,0 +1,139 @@
+import { getRandomValues, subtle } from "uncrypto";
+
+import { ICryptoProvider, INodeCrypto } from "./interfaces";
+
+async function webPbkdf2(
+  hash: string,
+  password: number[],
+  salt: number[],
+  iterations: number,
+  length: number,
+): Promise<number[]> {
+  const key = await subtle.importKey(
+    "raw",
+    new Uint8Array(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const derived = await subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      hash: hash,
+      salt: new Uint8Array(salt),
+      iterations: iterations,
+    },
+    key,
+    length * 8,
+  );
+  return Array.from(new Uint8Array(derived));
+}
+
+async function webHmac(
+  hash: string,
+  key: number[],
+  data: number[],
+): Promise<number[]> {
+  const hmacKey = await subtle.importKey(
+    "raw",
+    new Uint8Array(key),
+    { name: "HMAC", hash: { name: hash } },
+    false,
+    ["sign"],
+  );
+  const signature = await subtle.sign("HMAC", hmacKey, new Uint8Array(data));
+  return Array.from(new Uint8Array(signature));
+}
+
+async function webDigest(hash: string, data: number[]): Promise<number[]> {
+  const digest = await subtle.digest(hash, new Uint8Array(data));
+  return Array.from(new Uint8Array(digest));
+}
+
+//
+// The default crypto provider, backed by the WebCrypto API of the platform
+// (`globalThis.crypto`, or `node:crypto` on older Node.js versions) through
+// uncrypto.
+//
+export const webCryptoProvider: ICryptoProvider = {
+  pbkdf2Sha256: (password, salt, iterations, length) =>
+    webPbkdf2("SHA-256", password, salt, iterations, length),
+  pbkdf2Sha512: (password, salt, iterations, length) =>
+    webPbkdf2("SHA-512", password, salt, iterations, length),
+  hmacSha256: (key, data) => webHmac("SHA-256", key, data),
+  hmacSha512: (key, data) => webHmac("SHA-512", key, data),
+  sha256: (data) => webDigest("SHA-256", data),
+  sha512: (data) => webDigest("SHA-512", data),
+  randomBytes: (length) => {
+    const randoms = new Uint8Array(length);
+    getRandomValues(randoms);
+    return Array.from(randoms);
+  },
+};
+
+//
+// Creates a crypto provider backed by the Node.js crypto module, e.g.
+// `createNodeCryptoProvider(require("node:crypto"))`. The module is passed in
+// rather than imported, so that the library stays free of Node.js imports in
+// browser bundles.
+//
+export function createNodeCryptoProvider(
+  nodeCrypto: INodeCrypto,
+): ICryptoProvider {
+  const pbkdf2 = (
+    digest: string,
+    password: number[],
+    salt: number[],
+    iterations: number,
+    length: number,
+  ): Promise<number[]> =>
+    new Promise((resolve, reject) => {
+      nodeCrypto.pbkdf2(
+        new Uint8Array(password),
+        new Uint8Array(salt),
+        iterations,
+        length,
+        digest,
+        (err, derivedKey) => {
+          if (err !== null) {
+            reject(err);
+            return;
+          }
+          resolve(Array.from(derivedKey));
+        },
+      );
+    });
+
+  const hmac = (
+    algorithm: string,
+    key: number[],
+    data: number[],
+  ): Promise<number[]> =>
+    Promise.resolve(
+      Array.from(
+        nodeCrypto
+          .createHmac(algorithm, new Uint8Array(key))
+          .update(new Uint8Array(data))
+          .digest(),
+      ),
+    );
+
+  const hash = (algorithm: string, data: number[]): Promise<number[]> =>
+    Promise.resolve(
+      Array.from(
+        nodeCrypto.createHash(algorithm).update(new Uint8Array(data)).digest(),
+      ),
+    );
+
+  return {
+    pbkdf2Sha256: (password, salt, iterations, length) =>
+      pbkdf2("sha256", password, salt, iterations, length),
+    pbkdf2Sha512: (password, salt, iterations, length) =>
+      pbkdf2("sha512", password, salt, iterations, length),
+    hmacSha256: (key, data) => hmac("sha256", key, data),
+    hmacSha512: (key, data) => hmac("sha512", key, data),
+    sha256: (data) => hash("sha256", data),
+    sha512: (data) => hash("sha512", data),
+    randomBytes: (length) => Array.from(nodeCrypto.randomBytes(length)),
+  };
+}
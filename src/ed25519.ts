@@ -0,0 +1,69 @@
+//
+// The public key computation of Ed25519 (RFC 8032) on the twisted Edwards
+// curve -x^2 + y^2 = 1 + dx^2y^2, in affine coordinates. Like the Weierstrass
+// arithmetic, it is not constant time and not meant for signing.
+//
+import { webCryptoProvider } from "./crypto_provider";
+import { ICryptoProvider } from "./interfaces";
+import { decodeBigInt, encodeBigInt } from "./utils";
+import { mod, modInverse } from "./weierstrass";
+
+interface IEdwardsPoint {
+  x: bigint;
+  y: bigint;
+}
+
+const P = BigInt(2) ** BigInt(255) - BigInt(19);
+const D = mod(BigInt(-121665) * modInverse(BigInt(121666), P), P);
+const BASE: IEdwardsPoint = {
+  x: BigInt(
+    "15112221349535400772501151409588531511454012693041857206046113283949847762202",
+  ),
+  y: BigInt(
+    "46316835694926478169428394003475163141307993866256225615783033603165251855960",
+  ),
+};
+
+function pointAdd(p1: IEdwardsPoint, p2: IEdwardsPoint): IEdwardsPoint {
+  const t = mod(D * p1.x * p2.x * p1.y * p2.y, P);
+  return {
+    x: mod((p1.x * p2.y + p1.y * p2.x) * modInverse(BigInt(1) + t, P), P),
+    y: mod((p1.y * p2.y + p1.x * p2.x) * modInverse(BigInt(1) - t, P), P),
+  };
+}
+
+function multiplyBase(scalar: bigint): IEdwardsPoint {
+  // The neutral element.
+  let result: IEdwardsPoint = { x: BigInt(0), y: BigInt(1) };
+  let addend = BASE;
+  let k = scalar;
+
+  while (k > BigInt(0)) {
+    if (k & BigInt(1)) {
+      result = pointAdd(result, addend);
+    }
+    addend = pointAdd(addend, addend);
+    k >>= BigInt(1);
+  }
+  return result;
+}
+
+//
+// Computes the 32 byte public key of a 32 byte private key, i.e. the little
+// endian y coordinate with the parity of x in its most significant bit.
+//
+export async function ed25519PublicKey(
+  privateKey: number[],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<number[]> {
+  const h = await cryptoProvider.sha512(privateKey);
+  const a = h.slice(0, 32);
+  a[0] &= 248;
+  a[31] &= 127;
+  a[31] |= 64;
+
+  const point = multiplyBase(decodeBigInt(a.reverse()));
+  const encoded = encodeBigInt(point.y, 32).reverse();
+  encoded[31] |= Number(point.x & BigInt(1)) << 7;
+  return encoded;
+}
@@ -0,0 +1,154 @@
+import { ISlip39ErrorContext } from "./interfaces";
+
+export type Slip39ErrorCode =
+  | "INVALID_WORD"
+  | "AMBIGUOUS_WORD"
+  | "INVALID_CHECKSUM"
+  | "INVALID_PADDING"
+  | "INVALID_MNEMONIC"
+  | "MISMATCHED_IDENTIFIER"
+  | "INVALID_SHARE_SET"
+  | "INSUFFICIENT_GROUPS"
+  | "INSUFFICIENT_MEMBERS"
+  | "DIGEST_MISMATCH"
+  | "INVALID_ITERATION_EXPONENT"
+  | "NOT_EXTENDABLE"
+  | "INVALID_PATH"
+  | "INVALID_PARAMETER"
+  | "INVALID_ENCODING"
+  | "CANCELLED";
+
+/**
+ * Slip39Error
+ * The base class of every error thrown by the library. The `code` is meant to
+ * be matched by the callers, e.g. a wallet UI, instead of the message, and the
+ * `context` carries the details of the failure, such as the index of the
+ * offending mnemonic, the position of the word or the expected counts.
+ */
+export class Slip39Error extends Error {
+  public readonly code: Slip39ErrorCode;
+  public readonly context: ISlip39ErrorContext;
+
+  constructor(
+    code: Slip39ErrorCode,
+    message: string,
+    context: ISlip39ErrorContext = {},
+  ) {
+    super(message);
+    this.name = "Slip39Error";
+    this.code = code;
+    this.context = context;
+  }
+}
+
+export class InvalidWordError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_WORD", message, context);
+    this.name = "InvalidWordError";
+  }
+}
+
+export class AmbiguousWordError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("AMBIGUOUS_WORD", message, context);
+    this.name = "AmbiguousWordError";
+  }
+}
+
+export class InvalidChecksumError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_CHECKSUM", message, context);
+    this.name = "InvalidChecksumError";
+  }
+}
+
+export class InvalidPaddingError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_PADDING", message, context);
+    this.name = "InvalidPaddingError";
+  }
+}
+
+export class InvalidMnemonicError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_MNEMONIC", message, context);
+    this.name = "InvalidMnemonicError";
+  }
+}
+
+export class MismatchedIdentifierError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("MISMATCHED_IDENTIFIER", message, context);
+    this.name = "MismatchedIdentifierError";
+  }
+}
+
+export class InvalidShareSetError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_SHARE_SET", message, context);
+    this.name = "InvalidShareSetError";
+  }
+}
+
+export class InsufficientGroupsError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INSUFFICIENT_GROUPS", message, context);
+    this.name = "InsufficientGroupsError";
+  }
+}
+
+export class InsufficientMembersError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INSUFFICIENT_MEMBERS", message, context);
+    this.name = "InsufficientMembersError";
+  }
+}
+
+export class DigestMismatchError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("DIGEST_MISMATCH", message, context);
+    this.name = "DigestMismatchError";
+  }
+}
+
+export class InvalidIterationExponentError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_ITERATION_EXPONENT", message, context);
+    this.name = "InvalidIterationExponentError";
+  }
+}
+
+export class NotExtendableError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("NOT_EXTENDABLE", message, context);
+    this.name = "NotExtendableError";
+  }
+}
+
+export class InvalidPathError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_PATH", message, context);
+    this.name = "InvalidPathError";
+  }
+}
+
+export class InvalidParameterError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_PARAMETER", message, context);
+    this.name = "InvalidParameterError";
+  }
+}
+
+export class InvalidEncodingError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("INVALID_ENCODING", message, context);
+    this.name = "InvalidEncodingError";
+  }
+}
+
+export class CancelledError extends Slip39Error {
+  constructor(message: string, context: ISlip39ErrorContext = {}) {
+    super("CANCELLED", message, context);
+    this.name = "CancelledError";
+  }
+}
@@ -0,0 +1,88 @@
+import {
+  MAX_MNEMONIC_WORDS,
+  METADATA_WORDS_LENGTH,
+  MNEMONICS_WORDS_LENGTH,
+  RADIX_BITS,
+  UNIQUE_PREFIX_LENGTH,
+  WORD_LIST_MAP,
+} from "./constants";
+import {
+  mnemonicFromIndices,
+  rs1024VerifyChecksum,
+  validateMnemonic,
+} from "./slip39_helper";
+import { completeWord } from "./words";
+
+//
+// Splits the text into the indices of its wordlist words. Anything else, e.g.
+// numbering, punctuation or other words, is dropped. Words are accepted in
+// full or abbreviated to at least their first four letters.
+//
+function tokenize(text: string): number[] {
+  const tokens = text.toLowerCase().split(/[^a-z]+/);
+  return tokens.reduce((prev: number[], token) => {
+    if (token.length < UNIQUE_PREFIX_LENGTH) {
+      return prev;
+    }
+    const candidates = completeWord(token);
+    return candidates.length === 1
+      ? prev.concat(WORD_LIST_MAP[candidates[0]])
+      : prev;
+  }, []);
+}
+
+function isValidLength(length: number): boolean {
+  return (RADIX_BITS * (length - METADATA_WORDS_LENGTH)) % 16 <= 8;
+}
+
+//
+// Returns the length of the mnemonic starting at the position of the stream,
+// or 0 if there is none. Only the lengths of valid shares are tried, so that
+// long streams are scanned in linear time.
+//
+function mnemonicLengthAt(stream: number[], start: number): number {
+  for (
+    let length = MNEMONICS_WORDS_LENGTH;
+    length <= MAX_MNEMONIC_WORDS && start + length <= stream.length;
+    length++
+  ) {
+    if (!isValidLength(length)) {
+      continue;
+    }
+
+    const data = stream.slice(start, start + length);
+    if (
+      (rs1024VerifyChecksum(data, 0) || rs1024VerifyChecksum(data, 1)) &&
+      validateMnemonic(mnemonicFromIndices(data))
+    ) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+//
+// Extracts the mnemonics from free-form text, e.g. shares pasted from
+// spreadsheets, PDFs or chat. The text is tokenized into a stream of wordlist
+// words, which is segmented into mnemonics by sliding over the candidate
+// lengths at every position and using the RS1024 checksum to find the share
+// boundaries.
+//
+export function extractMnemonics(text: string): string[] {
+  const stream = tokenize(text);
+  const mnemonics: string[] = [];
+
+  let start = 0;
+  while (start + MNEMONICS_WORDS_LENGTH <= stream.length) {
+    const length = mnemonicLengthAt(stream, start);
+    if (length === 0) {
+      start = start + 1;
+      continue;
+    }
+
+    mnemonics.push(mnemonicFromIndices(stream.slice(start, start + length)));
+    start = start + length;
+  }
+
+  return mnemonics;
+}
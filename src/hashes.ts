@@ -0,0 +1,148 @@
+import { webCryptoProvider } from "./crypto_provider";
+import { ICryptoProvider } from "./interfaces";
+
+// The message word order, the rotations and the constants of the left and
+// right lines of RIPEMD-160.
+const RIPEMD160_R = [
+  0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 7, 4, 13, 1, 10, 6, 15,
+  3, 12, 0, 9, 5, 2, 14, 11, 8, 3, 10, 14, 4, 9, 15, 8, 1, 2, 7, 0, 6, 13, 11,
+  5, 12, 1, 9, 11, 10, 0, 8, 12, 4, 13, 3, 7, 15, 14, 5, 6, 2, 4, 0, 5, 9, 7,
+  12, 2, 10, 14, 1, 3, 8, 11, 6, 15, 13,
+];
+const RIPEMD160_R_PRIME = [
+  5, 14, 7, 0, 9, 2, 11, 4, 13, 6, 15, 8, 1, 10, 3, 12, 6, 11, 3, 7, 0, 13, 5,
+  10, 14, 15, 8, 12, 4, 9, 1, 2, 15, 5, 1, 3, 7, 14, 6, 9, 11, 8, 12, 2, 10, 0,
+  4, 13, 8, 6, 4, 1, 3, 11, 15, 0, 5, 12, 2, 13, 9, 7, 10, 14, 12, 15, 10, 4, 1,
+  5, 8, 7, 6, 2, 13, 14, 0, 3, 9, 11,
+];
+const RIPEMD160_S = [
+  11, 14, 15, 12, 5, 8, 7, 9, 11, 13, 14, 15, 6, 7, 9, 8, 7, 6, 8, 13, 11, 9, 7,
+  15, 7, 12, 15, 9, 11, 7, 13, 12, 11, 13, 6, 7, 14, 9, 13, 15, 14, 8, 13, 6, 5,
+  12, 7, 5, 11, 12, 14, 15, 14, 15, 9, 8, 9, 14, 5, 6, 8, 6, 5, 12, 9, 15, 5,
+  11, 6, 8, 13, 12, 5, 12, 13, 14, 11, 8, 5, 6,
+];
+const RIPEMD160_S_PRIME = [
+  8, 9, 9, 11, 13, 15, 15, 5, 7, 7, 8, 11, 14, 14, 12, 6, 9, 13, 15, 7, 12, 8,
+  9, 11, 7, 7, 12, 7, 6, 15, 13, 11, 9, 7, 15, 11, 8, 6, 6, 14, 12, 13, 5, 14,
+  13, 13, 7, 5, 15, 5, 8, 11, 14, 14, 6, 14, 6, 9, 12, 9, 12, 5, 15, 8, 8, 5,
+  12, 9, 12, 5, 14, 6, 8, 13, 6, 5, 15, 13, 11, 11,
+];
+const RIPEMD160_K = [
+  0x00000000, 0x5a827999, 0x6ed9eba1, 0x8f1bbcdc, 0xa953fd4e,
+];
+const RIPEMD160_K_PRIME = [
+  0x50a28be6, 0x5c4dd124, 0x6d703ef3, 0x7a6d76e9, 0x00000000,
+];
+
+function rotl(x: number, n: number): number {
+  return ((x << n) | (x >>> (32 - n))) >>> 0;
+}
+
+function ripemd160F(j: number, x: number, y: number, z: number): number {
+  if (j < 16) {
+    return x ^ y ^ z;
+  }
+  if (j < 32) {
+    return (x & y) | (~x & z);
+  }
+  if (j < 48) {
+    return (x | ~y) ^ z;
+  }
+  if (j < 64) {
+    return (x & z) | (y & ~z);
+  }
+  return x ^ (y | ~z);
+}
+
+//
+// RIPEMD-160, which is not provided by WebCrypto, but needed for the key
+// fingerprints of BIP32.
+//
+export function ripemd160(data: number[]): number[] {
+  // Padding to a multiple of 64 bytes, ending with the length in bits as a
+  // little endian 64 bit integer.
+  const bitLength = data.length * 8;
+  const padded = data.concat(0x80);
+  while (padded.length % 64 !== 56) {
+    padded.push(0);
+  }
+  for (let i = 0; i < 8; i++) {
+    padded.push(i < 4 ? (bitLength >>> (8 * i)) & 0xff : 0);
+  }
+
+  const h = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0];
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    const x: number[] = [];
+    for (let i = 0; i < 16; i++) {
+      const k = offset + 4 * i;
+      x.push(
+        (padded[k] |
+          (padded[k + 1] << 8) |
+          (padded[k + 2] << 16) |
+          (padded[k + 3] << 24)) >>>
+          0,
+      );
+    }
+
+    let [al, bl, cl, dl, el] = h;
+    let [ar, br, cr, dr, er] = h;
+    for (let j = 0; j < 80; j++) {
+      const round = Math.floor(j / 16);
+      let t =
+        (rotl(
+          (al +
+            ripemd160F(j, bl, cl, dl) +
+            x[RIPEMD160_R[j]] +
+            RIPEMD160_K[round]) >>>
+            0,
+          RIPEMD160_S[j],
+        ) +
+          el) >>>
+        0;
+      al = el;
+      el = dl;
+      dl = rotl(cl, 10);
+      cl = bl;
+      bl = t;
+
+      t =
+        (rotl(
+          (ar +
+            ripemd160F(79 - j, br, cr, dr) +
+            x[RIPEMD160_R_PRIME[j]] +
+            RIPEMD160_K_PRIME[round]) >>>
+            0,
+          RIPEMD160_S_PRIME[j],
+        ) +
+          er) >>>
+        0;
+      ar = er;
+      er = dr;
+      dr = rotl(cr, 10);
+      cr = br;
+      br = t;
+    }
+
+    const t = (h[1] + cl + dr) >>> 0;
+    h[1] = (h[2] + dl + er) >>> 0;
+    h[2] = (h[3] + el + ar) >>> 0;
+    h[3] = (h[4] + al + br) >>> 0;
+    h[4] = (h[0] + bl + cr) >>> 0;
+    h[0] = t;
+  }
+
+  return h.reduce((prev: number[], word) => {
+    return prev.concat([0, 8, 16, 24].map((shift) => (word >>> shift) & 0xff));
+  }, []);
+}
+
+//
+// RIPEMD-160 of SHA-256, e.g. of a public key.
+//
+export async function hash160(
+  data: number[],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<number[]> {
+  return ripemd160(await cryptoProvider.sha256(data));
+}
@@ -1,3 +1,16 @@
 export * from "./slip39";
 export * from "./interfaces";
 export * from "./utils";
+export * from "./recovery_session";
+export * from "./correction";
+export * from "./words";
+export * from "./extraction";
+export * from "./errors";
+export * from "./codec";
+export * from "./crypto_provider";
+export * from "./master_secret";
+export * from "./bip39";
+export * from "./bip32";
+export * from "./slip10";
+export * from "./cardano";
+export * from "./share_analysis";
@@ -1,3 +1,5 @@
+import { Slip39Error } from "./errors";
+
 export interface ISlip39 {
   extendableBackupFlag: number;
   groupCount: number;
@@ -12,6 +14,9 @@ export interface ISlip39Node {
   index: number;
   children: ISlip39Node[];
   description: string;
+  path: string;
+  groupThreshold: number;
+  memberThreshold?: number;
 }
 
 export interface IDecodedMnemonics {
@@ -41,4 +46,273 @@ export interface ISlip39ConstructorOptions {
   iterationExponent: number;
   groupCount: number;
   groupThreshold: number;
+  cryptoProvider?: ICryptoProvider;
+  entropySource?: IEntropySource;
+}
+
+export interface IRecoveryGroupProgress {
+  groupIndex: number;
+  memberThreshold: number;
+  membersEntered: number;
+  isComplete: boolean;
+}
+
+export interface IRecoveryProgress {
+  extendableBackupFlag: number;
+  groupCount: number;
+  groupThreshold: number;
+  identifier: number;
+  iterationExponent: number;
+  groups: IRecoveryGroupProgress[];
+  groupsComplete: number;
+  isComplete: boolean;
+}
+
+export interface IMnemonicCorrection {
+  mnemonic: string;
+  kind: "substitution" | "transposition";
+  position: number;
+  original: string;
+  replacement: string;
+  distance: number;
+}
+
+export interface ISlip39ErrorContext {
+  mnemonicIndex?: number;
+  wordPosition?: number;
+  word?: string;
+  groupIndex?: number;
+  memberIndex?: number;
+  expected?: number;
+  actual?: number;
+}
+
+export interface IShareInspection extends IDecodedMnemonic {
+  groupNumber: number;
+  memberNumber: number;
+  wordCount: number;
+  shareValueLength: number;
+  secretLength: number;
+  groupPrefix: string[];
+  description: string;
+}
+
+export interface IShareGroupReport {
+  groupIndex: number;
+  memberThreshold: number;
+  memberIndices: number[];
+  membersNeeded: number;
+  isComplete: boolean;
+}
+
+export interface IShareSetReport {
+  identifier: number;
+  extendableBackupFlag: number;
+  iterationExponent: number;
+  groupThreshold: number;
+  groupCount: number;
+  mnemonicIndices: number[];
+  groups: IShareGroupReport[];
+  groupsComplete: number;
+  groupsNeeded: number;
+  isComplete: boolean;
+}
+
+export interface IShareDuplicate {
+  mnemonicIndex: number;
+  duplicateOf: number;
+}
+
+export interface IShareConflict {
+  mnemonicIndex: number;
+  conflictsWith: number;
+  reason: "share" | "parameters";
+}
+
+export interface IInvalidShare {
+  mnemonicIndex: number;
+  error: Slip39Error;
+}
+
+export interface IShareAnalysis {
+  sets: IShareSetReport[];
+  duplicates: IShareDuplicate[];
+  conflicts: IShareConflict[];
+  invalid: IInvalidShare[];
+}
+
+export interface IShareAgreement {
+  mnemonicIndex: number;
+  groupIndex: number;
+  memberIndex: number;
+  status: "used" | "agrees" | "disagrees" | "unused";
+}
+
+export interface IRecoveryReport {
+  secret: number[];
+  shares: IShareAgreement[];
+  isConsistent: boolean;
+}
+
+export interface IFaultyShareReport {
+  secret: number[];
+  suspects: number[];
+  consistent: number[];
+  unverified: number[];
+}
+
+export interface IEntropySource {
+  randomBytes(length: number): number[];
+}
+
+export interface ICryptoProvider extends IEntropySource {
+  pbkdf2Sha256(
+    password: number[],
+    salt: number[],
+    iterations: number,
+    length: number,
+  ): Promise<number[]>;
+  pbkdf2Sha512(
+    password: number[],
+    salt: number[],
+    iterations: number,
+    length: number,
+  ): Promise<number[]>;
+  hmacSha256(key: number[], data: number[]): Promise<number[]>;
+  hmacSha512(key: number[], data: number[]): Promise<number[]>;
+  sha256(data: number[]): Promise<number[]>;
+  sha512(data: number[]): Promise<number[]>;
+}
+
+export interface INodeCryptoHash {
+  update(data: Uint8Array): INodeCryptoHash;
+  digest(): Uint8Array;
+}
+
+export interface INodeCrypto {
+  pbkdf2(
+    password: Uint8Array,
+    salt: Uint8Array,
+    iterations: number,
+    keylen: number,
+    digest: string,
+    callback: (err: Error | null, derivedKey: Uint8Array) => void,
+  ): void;
+  createHmac(algorithm: string, key: Uint8Array): INodeCryptoHash;
+  createHash(algorithm: string): INodeCryptoHash;
+  randomBytes(size: number): Uint8Array;
+}
+
+export interface ICryptOptions {
+  signal?: AbortSignal;
+  onProgress?: (round: number, totalRounds: number) => void;
+  cryptoProvider?: ICryptoProvider;
+}
+
+export interface ISlip39FromArrayOptions extends ICryptOptions {
+  extendableBackupFlag?: number;
+  groups?: (number | string)[][];
+  iterationExponent?: number;
+  identifier?: number[];
+  passphrase?: string;
+  groupThreshold?: number;
+  title?: string;
+  entropySource?: IEntropySource;
+}
+
+export interface ISlip39AddMembersOptions {
+  count?: number;
+  memberIndices?: number[];
+  cryptoProvider?: ICryptoProvider;
+}
+
+export interface IBip32Node {
+  depth: number;
+  index: number;
+  parentFingerprint: number;
+  fingerprint: number;
+  chainCode: number[];
+  privateKey: number[];
+  publicKey: number[];
+  xprv: string;
+  xpub: string;
+}
+
+export interface ISlip10Node {
+  curve: "ed25519" | "nist256p1";
+  depth: number;
+  index: number;
+  chainCode: number[];
+  privateKey: number[];
+  publicKey: number[];
+}
+
+export interface ICardanoRootKey {
+  extendedKey: number[];
+  chainCode: number[];
+  rootXsk: string;
+}
+
+export interface IUserEntropy {
+  kind: "dice" | "coins" | "text";
+  value: string;
+  sides?: number;
+  claimedBits?: number;
+}
+
+export interface IUserEntropyRecord {
+  kind: IUserEntropy["kind"];
+  count: number;
+  maxBits: number;
+  creditedBits: number;
+}
+
+export interface IMasterSecretOptions {
+  bits?: 128 | 256;
+  userEntropy?: IUserEntropy[];
+  cryptoProvider?: ICryptoProvider;
+  entropySource?: IEntropySource;
+}
+
+export interface IMasterSecretGeneration {
+  masterSecret: number[];
+  bits: number;
+  systemEntropyBits: number;
+  userEntropyBits: number;
+  userEntropy: IUserEntropyRecord[];
+  mixing: string;
+}
+
+export interface ISlip39Labels {
+  title?: string;
+  groups?: string[];
+  members?: string[][];
+}
+
+export interface ISlip39FromMnemonicsOptions extends ISlip39Labels {
+  cryptoProvider?: ICryptoProvider;
+}
+
+export interface ISlip39MemberJson {
+  index: number;
+  description: string;
+  mnemonic: string;
+}
+
+export interface ISlip39GroupJson {
+  index: number;
+  description: string;
+  memberThreshold: number;
+  members: ISlip39MemberJson[];
+}
+
+export interface ISlip39Json {
+  version: number;
+  title: string;
+  identifier: number;
+  iterationExponent: number;
+  extendableBackupFlag: number;
+  groupThreshold: number;
+  groupCount: number;
+  groups: ISlip39GroupJson[];
 }
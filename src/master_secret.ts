@@ -0,0 +1,162 @@
+import { webCryptoProvider } from "./crypto_provider";
+import { InvalidParameterError } from "./errors";
+import {
+  IMasterSecretGeneration,
+  IMasterSecretOptions,
+  IUserEntropy,
+  IUserEntropyRecord,
+} from "./interfaces";
+
+// The allowed lengths of a generated master secret in bits.
+const MASTER_SECRET_BITS = [128, 256];
+
+// The number of sides of a die, unless stated otherwise.
+const DEFAULT_DICE_SIDES = 6;
+
+//
+// Parses the rolls of a die, either one digit per roll, e.g. "3614", or
+// separated by whitespace or commas, e.g. "3 6 12 4" for dice with more than
+// 9 sides.
+//
+function parseDice(value: string, sides: number): string[] {
+  if (!Number.isInteger(sides) || sides < 2) {
+    throw new InvalidParameterError(
+      `Invalid number of dice sides (${String(sides)}). Expected an integer of at least 2.`,
+      { actual: sides },
+    );
+  }
+
+  const trimmed = value.trim();
+  const rolls = /[\s,]/.test(trimmed)
+    ? trimmed.split(/[\s,]+/)
+    : Array.from(trimmed);
+
+  rolls.forEach((roll) => {
+    const number = Number(roll);
+    if (!/^\d+$/.test(roll) || number < 1 || number > sides) {
+      throw new InvalidParameterError(
+        `Invalid dice roll (${roll}). Expected between 1 and ${String(sides)}.`,
+        { expected: sides },
+      );
+    }
+  });
+  return rolls.map((roll) => String(Number(roll)));
+}
+
+function parseCoins(value: string): string[] {
+  return Array.from(value.replace(/\s+/g, "")).map((flip) => {
+    if (!/^[HhTt01]$/.test(flip)) {
+      throw new InvalidParameterError(
+        `Invalid coin flip (${flip}). Expected H, T, 1 or 0.`,
+      );
+    }
+    return /^[Hh1]$/.test(flip) ? "1" : "0";
+  });
+}
+
+//
+// Accounts for a source of user entropy: its normalized form, which is mixed
+// into the master secret, the most entropy it can carry and the entropy it is
+// credited with. Text carries at most 8 bits per byte, but as its actual
+// entropy cannot be estimated, it is only credited with the claimed bits.
+//
+function accountUserEntropy(entropy: IUserEntropy): {
+  normalized: string;
+  record: IUserEntropyRecord;
+} {
+  let symbols: string[];
+  let maxBits: number;
+  if (entropy.kind === "dice") {
+    const sides =
+      typeof entropy.sides === "undefined" ? DEFAULT_DICE_SIDES : entropy.sides;
+    symbols = parseDice(entropy.value, sides);
+    maxBits = Math.floor(symbols.length * Math.log2(sides));
+  } else if (entropy.kind === "coins") {
+    symbols = parseCoins(entropy.value);
+    maxBits = symbols.length;
+  } else {
+    symbols = Array.from(entropy.value);
+    maxBits = new TextEncoder().encode(entropy.value).length * 8;
+  }
+
+  if (symbols.length === 0 || entropy.value.trim().length === 0) {
+    throw new InvalidParameterError(
+      `The user entropy (${entropy.kind}) is empty.`,
+      { actual: 0 },
+    );
+  }
+
+  const claimedBits = entropy.claimedBits;
+  if (
+    typeof claimedBits !== "undefined" &&
+    (!Number.isInteger(claimedBits) || claimedBits < 0 || claimedBits > maxBits)
+  ) {
+    throw new InvalidParameterError(
+      `The claimed entropy (${String(claimedBits)} bits) of the user entropy (${entropy.kind}) must be between 0 and ${String(maxBits)} bits.`,
+      { expected: maxBits, actual: claimedBits },
+    );
+  }
+
+  let creditedBits = entropy.kind === "text" ? 0 : maxBits;
+  if (typeof claimedBits !== "undefined") {
+    creditedBits = claimedBits;
+  }
+
+  return {
+    normalized: entropy.kind === "dice" ? symbols.join(",") : symbols.join(""),
+    record: {
+      kind: entropy.kind,
+      count: symbols.length,
+      maxBits: maxBits,
+      creditedBits: creditedBits,
+    },
+  };
+}
+
+//
+// Generates a new master secret, e.g. for `Slip39.fromArray()`. The system
+// randomness is the HMAC-SHA256 key and the user entropy, e.g. dice rolls,
+// the message, so neither a weak system RNG nor crafted user input alone
+// controls the result. The returned record accounts for the entropy of each
+// source for audit; the master secret is only as strong as its system
+// entropy plus the credited user entropy, capped at its length.
+//
+export async function generateMasterSecret({
+  bits = 128,
+  userEntropy = [],
+  cryptoProvider = webCryptoProvider,
+  entropySource = cryptoProvider,
+}: IMasterSecretOptions = {}): Promise<IMasterSecretGeneration> {
+  if (!MASTER_SECRET_BITS.includes(bits)) {
+    throw new InvalidParameterError(
+      `Invalid master secret length (${String(bits)} bits). Expected ${MASTER_SECRET_BITS.join(" or ")} bits.`,
+      { actual: bits },
+    );
+  }
+
+  const accounts = userEntropy.map((entropy) => accountUserEntropy(entropy));
+  // Each source is prefixed with its kind and length, so that the boundaries
+  // between the sources are unambiguous.
+  const message = accounts
+    .map(
+      ({ normalized, record }) =>
+        `${record.kind}:${String(normalized.length)}:${normalized}`,
+    )
+    .join("");
+
+  const systemEntropy = entropySource.randomBytes(bits / 8);
+  const mixed = await cryptoProvider.hmacSha256(
+    systemEntropy,
+    Array.from(new TextEncoder().encode(message)),
+  );
+
+  const records = accounts.map(({ record }) => record);
+  return {
+    masterSecret: mixed.slice(0, bits / 8),
+    bits: bits,
+    systemEntropyBits: systemEntropy.length * 8,
+    userEntropyBits: records.reduce((sum, item) => sum + item.creditedBits, 0),
+    userEntropy: records,
+    mixing: "HMAC-SHA256",
+  };
+}
@@ -0,0 +1,202 @@
+import { ITERATION_EXP_WORDS_LENGTH } from "./constants";
+import {
+  InsufficientGroupsError,
+  InvalidShareSetError,
+  MismatchedIdentifierError,
+} from "./errors";
+import {
+  ICryptOptions,
+  IDecodedMnemonic,
+  IRecoveryGroupProgress,
+  IRecoveryProgress,
+} from "./interfaces";
+import { combineMnemonics, decodeMnemonic } from "./slip39_helper";
+import { listsAreEqual } from "./utils";
+
+interface IEnteredShare {
+  mnemonic: string;
+  share: number[];
+}
+
+interface IEnteredGroup {
+  memberThreshold: number;
+  members: Map<number, IEnteredShare>;
+}
+
+/**
+ * Slip39RecoverySession
+ * Collects the mnemonics one at a time, e.g. while the user types them in a
+ * wallet UI, validates each of them against the ones already entered and
+ * reports the progress of every group until the secret can be recovered.
+ */
+export class Slip39RecoverySession {
+  private parameters?: IDecodedMnemonic;
+  private groups = new Map<number, IEnteredGroup>();
+
+  addMnemonic(mnemonic: string): IRecoveryProgress {
+    const decoded = decodeMnemonic(mnemonic);
+
+    if (typeof this.parameters === "undefined") {
+      this.parameters = decoded;
+    } else {
+      this.validate(decoded);
+    }
+
+    const groupIndex = decoded.groupIndex;
+    const memberIndex = decoded.memberIndex;
+    let group = this.groups.get(groupIndex);
+    if (typeof group === "undefined") {
+      group = {
+        memberThreshold: decoded.memberThreshold,
+        members: new Map<number, IEnteredShare>(),
+      };
+    }
+
+    const entered = group.members.get(memberIndex);
+    if (typeof entered !== "undefined") {
+      if (listsAreEqual(entered.share, decoded.share)) {
+        throw new InvalidShareSetError(
+          `The mnemonic of member ${String(memberIndex + 1)} of group ${String(groupIndex + 1)} has already been entered.`,
+          { groupIndex: groupIndex, memberIndex: memberIndex },
+        );
+      }
+      throw new InvalidShareSetError(
+        `Invalid mnemonic. It conflicts with the previously entered mnemonic of member ${String(memberIndex + 1)} of group ${String(groupIndex + 1)}.`,
+        { groupIndex: groupIndex, memberIndex: memberIndex },
+      );
+    }
+
+    group.members.set(memberIndex, {
+      mnemonic: mnemonic,
+      share: decoded.share,
+    });
+    this.groups.set(groupIndex, group);
+
+    return this.progress;
+  }
+
+  get progress(): IRecoveryProgress {
+    const parameters = this.parameters;
+    if (typeof parameters === "undefined") {
+      return {
+        extendableBackupFlag: 0,
+        groupCount: 0,
+        groupThreshold: 0,
+        identifier: 0,
+        iterationExponent: 0,
+        groups: [],
+        groupsComplete: 0,
+        isComplete: false,
+      };
+    }
+
+    const groups: IRecoveryGroupProgress[] = Array.from(this.groups.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([groupIndex, group]) => {
+        return {
+          groupIndex: groupIndex,
+          memberThreshold: group.memberThreshold,
+          membersEntered: group.members.size,
+          isComplete: group.members.size >= group.memberThreshold,
+        };
+      });
+
+    const groupsComplete = groups.filter((item) => item.isComplete).length;
+
+    return {
+      extendableBackupFlag: parameters.extendableBackupFlag,
+      groupCount: parameters.groupCount,
+      groupThreshold: parameters.groupThreshold,
+      identifier: parameters.identifier,
+      iterationExponent: parameters.iterationExponent,
+      groups: groups,
+      groupsComplete: groupsComplete,
+      isComplete: groupsComplete >= parameters.groupThreshold,
+    };
+  }
+
+  get isComplete(): boolean {
+    return this.progress.isComplete;
+  }
+
+  async recover(
+    passphrase = "",
+    options: ICryptOptions = {},
+  ): Promise<number[]> {
+    const progress = this.progress;
+    if (!progress.isComplete) {
+      throw new InsufficientGroupsError(
+        `Insufficient number of complete mnemonic groups (${String(progress.groupsComplete)}). The required number of groups is ${String(progress.groupThreshold)}.`,
+        {
+          expected: progress.groupThreshold,
+          actual: progress.groupsComplete,
+        },
+      );
+    }
+
+    // Exactly the threshold number of members of the threshold number of groups.
+    const mnemonics = progress.groups
+      .filter((item) => item.isComplete)
+      .slice(0, progress.groupThreshold)
+      .reduce((prev: string[], item) => {
+        const members = Array.from(
+          this.groups.get(item.groupIndex).members.values(),
+          (entered) => entered.mnemonic,
+        );
+        return prev.concat(members.slice(0, item.memberThreshold));
+      }, []);
+
+    return combineMnemonics(mnemonics, passphrase, options);
+  }
+
+  reset(): void {
+    this.parameters = undefined;
+    this.groups = new Map<number, IEnteredGroup>();
+  }
+
+  private validate(decoded: IDecodedMnemonic): void {
+    const parameters = this.parameters;
+    if (typeof parameters === "undefined") {
+      return;
+    }
+
+    if (
+      decoded.identifier !== parameters.identifier ||
+      decoded.extendableBackupFlag !== parameters.extendableBackupFlag ||
+      decoded.iterationExponent !== parameters.iterationExponent
+    ) {
+      throw new MismatchedIdentifierError(
+        `Invalid mnemonic. It must begin with the same ${String(ITERATION_EXP_WORDS_LENGTH)} words as the previously entered mnemonics.`,
+      );
+    }
+
+    if (decoded.groupThreshold !== parameters.groupThreshold) {
+      throw new InvalidShareSetError(
+        `Invalid mnemonic. Its group threshold (${String(decoded.groupThreshold)}) differs from the previously entered mnemonics (${String(parameters.groupThreshold)}).`,
+        { expected: parameters.groupThreshold, actual: decoded.groupThreshold },
+      );
+    }
+
+    if (decoded.groupCount !== parameters.groupCount) {
+      throw new InvalidShareSetError(
+        `Invalid mnemonic. Its group count (${String(decoded.groupCount)}) differs from the previously entered mnemonics (${String(parameters.groupCount)}).`,
+        { expected: parameters.groupCount, actual: decoded.groupCount },
+      );
+    }
+
+    const group = this.groups.get(decoded.groupIndex);
+    if (
+      typeof group !== "undefined" &&
+      decoded.memberThreshold !== group.memberThreshold
+    ) {
+      throw new InvalidShareSetError(
+        `Invalid mnemonic. Its member threshold (${String(decoded.memberThreshold)}) differs from the previously entered mnemonics of group ${String(decoded.groupIndex + 1)} (${String(group.memberThreshold)}).`,
+        {
+          groupIndex: decoded.groupIndex,
+          expected: group.memberThreshold,
+          actual: decoded.memberThreshold,
+        },
+      );
+    }
+  }
+}
@@ -0,0 +1,384 @@
+import {
+  DigestMismatchError,
+  InsufficientGroupsError,
+  InvalidShareSetError,
+  Slip39Error,
+} from "./errors";
+import {
+  ICryptOptions,
+  IDecodedMnemonic,
+  IFaultyShareReport,
+  IShareAnalysis,
+  IShareConflict,
+  IShareDuplicate,
+  IInvalidShare,
+  IShareInspection,
+  IShareSetReport,
+} from "./interfaces";
+import {
+  combineMnemonics,
+  decodeMnemonic,
+  findConsistentPoints,
+  groupPrefix,
+  ISharePoint,
+  mnemonicFromIndices,
+  mnemonicToIndices,
+  throwIfEmpty,
+} from "./slip39_helper";
+import { generateArray, listsAreEqual } from "./utils";
+
+interface IAnalyzedMember {
+  mnemonicIndex: number;
+  share: number[];
+}
+
+interface IAnalyzedGroup {
+  mnemonicIndex: number;
+  memberThreshold: number;
+  members: Map<number, IAnalyzedMember>;
+}
+
+interface IAnalyzedSet {
+  mnemonicIndex: number;
+  parameters: IDecodedMnemonic;
+  mnemonicIndices: number[];
+  groups: Map<number, IAnalyzedGroup>;
+}
+
+//
+// Decodes the metadata of a single mnemonic without combining it with other
+// shares, e.g. to show the user which share they are holding. Besides the
+// 0-based indices of the mnemonic, the 1-based group and member numbers are
+// returned as they are meant to be displayed.
+//
+export function inspectShare(mnemonic: string): IShareInspection {
+  const decoded = decodeMnemonic(mnemonic);
+  const groupNumber = decoded.groupIndex + 1;
+  const memberNumber = decoded.memberIndex + 1;
+  const prefix = groupPrefix(
+    decoded.identifier,
+    decoded.extendableBackupFlag,
+    decoded.iterationExponent,
+    decoded.groupIndex,
+    decoded.groupThreshold,
+    decoded.groupCount,
+  );
+
+  const description = [
+    `Member ${String(memberNumber)} of group ${String(groupNumber)} (member threshold ${String(decoded.memberThreshold)})`,
+    `group threshold ${String(decoded.groupThreshold)} of ${String(decoded.groupCount)}`,
+    `identifier ${String(decoded.identifier)}`,
+    `iteration exponent ${String(decoded.iterationExponent)}`,
+    decoded.extendableBackupFlag ? "extendable" : "not extendable",
+  ].join(", ");
+
+  return {
+    ...decoded,
+    groupNumber: groupNumber,
+    memberNumber: memberNumber,
+    wordCount: mnemonicToIndices(mnemonic).length,
+    shareValueLength: decoded.share.length,
+    // The encrypted master secret, and so the master secret, has the length
+    // of the share value.
+    secretLength: decoded.share.length,
+    groupPrefix: mnemonicFromIndices(prefix).split(" "),
+    description: description,
+  };
+}
+
+function hasSameParameters(a: IDecodedMnemonic, b: IDecodedMnemonic): boolean {
+  return (
+    a.extendableBackupFlag === b.extendableBackupFlag &&
+    a.iterationExponent === b.iterationExponent &&
+    a.groupThreshold === b.groupThreshold &&
+    a.groupCount === b.groupCount
+  );
+}
+
+function reportSet(set: IAnalyzedSet): IShareSetReport {
+  const groups = Array.from(set.groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([groupIndex, group]) => {
+      const memberIndices = Array.from(group.members.keys()).sort(
+        (a, b) => a - b,
+      );
+      const membersNeeded = Math.max(
+        0,
+        group.memberThreshold - memberIndices.length,
+      );
+      return {
+        groupIndex: groupIndex,
+        memberThreshold: group.memberThreshold,
+        memberIndices: memberIndices,
+        membersNeeded: membersNeeded,
+        isComplete: membersNeeded === 0,
+      };
+    });
+
+  const parameters = set.parameters;
+  const groupsComplete = groups.filter((item) => item.isComplete).length;
+  const groupsNeeded = Math.max(0, parameters.groupThreshold - groupsComplete);
+
+  return {
+    identifier: parameters.identifier,
+    extendableBackupFlag: parameters.extendableBackupFlag,
+    iterationExponent: parameters.iterationExponent,
+    groupThreshold: parameters.groupThreshold,
+    groupCount: parameters.groupCount,
+    mnemonicIndices: set.mnemonicIndices,
+    groups: groups,
+    groupsComplete: groupsComplete,
+    groupsNeeded: groupsNeeded,
+    isComplete: groupsNeeded === 0,
+  };
+}
+
+//
+// Sorts a pile of mnemonics, e.g. everything the user could find, into share
+// sets by their identifier and reports how far each set is from being
+// recoverable. Nothing is decrypted. Mnemonics that cannot be decoded, exact
+// duplicates and shares that contradict an earlier mnemonic of the same set
+// are reported by their index and left out of the sets.
+//
+export function analyzeShares(mnemonics: string[]): IShareAnalysis {
+  const sets = new Map<number, IAnalyzedSet>();
+  const duplicates: IShareDuplicate[] = [];
+  const conflicts: IShareConflict[] = [];
+  const invalid: IInvalidShare[] = [];
+
+  mnemonics.forEach((mnemonic, mnemonicIndex) => {
+    let decoded: IDecodedMnemonic;
+    try {
+      decoded = decodeMnemonic(mnemonic);
+    } catch (e) {
+      if (!(e instanceof Slip39Error)) {
+        throw e;
+      }
+      e.context.mnemonicIndex = mnemonicIndex;
+      invalid.push({ mnemonicIndex: mnemonicIndex, error: e });
+      return;
+    }
+
+    let set = sets.get(decoded.identifier);
+    if (typeof set === "undefined") {
+      set = {
+        mnemonicIndex: mnemonicIndex,
+        parameters: decoded,
+        mnemonicIndices: [],
+        groups: new Map<number, IAnalyzedGroup>(),
+      };
+      sets.set(decoded.identifier, set);
+    } else if (!hasSameParameters(set.parameters, decoded)) {
+      conflicts.push({
+        mnemonicIndex: mnemonicIndex,
+        conflictsWith: set.mnemonicIndex,
+        reason: "parameters",
+      });
+      return;
+    }
+
+    let group = set.groups.get(decoded.groupIndex);
+    if (typeof group === "undefined") {
+      group = {
+        mnemonicIndex: mnemonicIndex,
+        memberThreshold: decoded.memberThreshold,
+        members: new Map<number, IAnalyzedMember>(),
+      };
+      set.groups.set(decoded.groupIndex, group);
+    } else if (group.memberThreshold !== decoded.memberThreshold) {
+      conflicts.push({
+        mnemonicIndex: mnemonicIndex,
+        conflictsWith: group.mnemonicIndex,
+        reason: "parameters",
+      });
+      return;
+    }
+
+    const member = group.members.get(decoded.memberIndex);
+    if (typeof member !== "undefined") {
+      if (listsAreEqual(member.share, decoded.share)) {
+        duplicates.push({
+          mnemonicIndex: mnemonicIndex,
+          duplicateOf: member.mnemonicIndex,
+        });
+      } else {
+        conflicts.push({
+          mnemonicIndex: mnemonicIndex,
+          conflictsWith: member.mnemonicIndex,
+          reason: "share",
+        });
+      }
+      return;
+    }
+
+    group.members.set(decoded.memberIndex, {
+      mnemonicIndex: mnemonicIndex,
+      share: decoded.share,
+    });
+    set.mnemonicIndices.push(mnemonicIndex);
+  });
+
+  return {
+    sets: Array.from(sets.values(), reportSet),
+    duplicates: duplicates,
+    conflicts: conflicts,
+    invalid: invalid,
+  };
+}
+
+function parametersOf(decoded: IDecodedMnemonic): string {
+  return [
+    decoded.identifier,
+    decoded.extendableBackupFlag,
+    decoded.iterationExponent,
+    decoded.groupThreshold,
+    decoded.groupCount,
+    decoded.share.length,
+  ].join("/");
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).reduce((prev, item) =>
+    item[1] > prev[1] ? item : prev,
+  )[0];
+}
+
+//
+// Pinpoints the corrupted or forged mnemonics of an over-complete set, which
+// fails to recover with an invalid digest. The threshold sized subsets of the
+// members of each group, and then of the groups, are tried until one passes
+// the digest check and agrees with the most of the others. The mnemonics
+// which disagree are the minimal set of suspects, and the secret is recovered
+// from the consistent ones. The mnemonics of incomplete groups cannot be
+// checked and are reported as unverified.
+//
+export async function findFaultyShares(
+  mnemonics: string[],
+  passphrase = "",
+  options: ICryptOptions = {},
+): Promise<IFaultyShareReport> {
+  throwIfEmpty(mnemonics);
+
+  const decoded: IDecodedMnemonic[] = [];
+  const sets = new Map<string, number[]>();
+  mnemonics.forEach((mnemonic, mnemonicIndex) => {
+    try {
+      decoded[mnemonicIndex] = decodeMnemonic(mnemonic);
+    } catch (e) {
+      if (e instanceof Slip39Error) {
+        return;
+      }
+      throw e;
+    }
+    const key = parametersOf(decoded[mnemonicIndex]);
+    const indices = sets.get(key);
+    sets.set(
+      key,
+      typeof indices === "undefined"
+        ? [mnemonicIndex]
+        : indices.concat(mnemonicIndex),
+    );
+  });
+
+  // The largest set of mnemonics with the same parameters is considered the
+  // genuine one, everything else is suspect.
+  let candidates: number[] = [];
+  sets.forEach((indices) => {
+    if (indices.length > candidates.length) {
+      candidates = indices;
+    }
+  });
+
+  if (candidates.length === 0) {
+    throw new InvalidShareSetError(
+      "None of the mnemonics is a valid share, there is nothing to check.",
+      { expected: 1, actual: 0 },
+    );
+  }
+
+  const groups = new Map<number, number[]>();
+  candidates.forEach((mnemonicIndex) => {
+    const groupIndex = decoded[mnemonicIndex].groupIndex;
+    const indices = groups.get(groupIndex);
+    groups.set(
+      groupIndex,
+      typeof indices === "undefined"
+        ? [mnemonicIndex]
+        : indices.concat(mnemonicIndex),
+    );
+  });
+
+  const unverified: number[] = [];
+  const groupPoints: ISharePoint[] = [];
+  const groupMembers: number[][] = [];
+  for (const [groupIndex, indices] of groups.entries()) {
+    const memberThreshold = mostCommon(
+      indices.map((idx) => decoded[idx].memberThreshold),
+    );
+    const members = indices.filter(
+      (idx) => decoded[idx].memberThreshold === memberThreshold,
+    );
+    const points = members.map((idx) => {
+      return { x: decoded[idx].memberIndex, value: decoded[idx].share };
+    });
+
+    if (new Set(points.map((point) => point.x)).size < memberThreshold) {
+      unverified.push(...members);
+      continue;
+    }
+
+    const found = await findConsistentPoints(
+      memberThreshold,
+      points,
+      options.cryptoProvider,
+    );
+    if (typeof found === "undefined") {
+      continue;
+    }
+
+    groupPoints.push({ x: groupIndex, value: found.secret });
+    groupMembers.push(members.filter((_, i) => found.agreeing[i]));
+  }
+
+  const groupThreshold = decoded[candidates[0]].groupThreshold;
+  if (groupPoints.length < groupThreshold) {
+    throw new InsufficientGroupsError(
+      `Insufficient number of consistent mnemonic groups (${String(groupPoints.length)}). The required number of groups is ${String(groupThreshold)}.`,
+      { expected: groupThreshold, actual: groupPoints.length },
+    );
+  }
+
+  const found = await findConsistentPoints(
+    groupThreshold,
+    groupPoints,
+    options.cryptoProvider,
+  );
+  if (typeof found === "undefined") {
+    throw new DigestMismatchError(
+      "Invalid digest of the shared secret. No subset of the mnemonic groups is consistent.",
+    );
+  }
+
+  const consistent = groupMembers
+    .filter((_, i) => found.agreeing[i])
+    .reduce((prev, item) => prev.concat(item), [])
+    .sort((a, b) => a - b);
+  const secret = await combineMnemonics(
+    consistent.map((idx) => mnemonics[idx]),
+    passphrase,
+    options,
+  );
+
+  const suspects = (generateArray([], mnemonics.length) as number[]).filter(
+    (idx) => !consistent.includes(idx) && !unverified.includes(idx),
+  );
+
+  return {
+    secret: secret,
+    suspects: suspects,
+    consistent: consistent,
+    unverified: unverified.sort((a, b) => a - b),
+  };
+}
@@ -0,0 +1,141 @@
+import { HARDENED_OFFSET, parseBip32Path, validateChildIndex } from "./bip32";
+import { webCryptoProvider } from "./crypto_provider";
+import { ed25519PublicKey } from "./ed25519";
+import { InvalidPathError } from "./errors";
+import { ICryptoProvider, ISlip10Node } from "./interfaces";
+import { decodeBigInt, encodeBigInt } from "./utils";
+import { NIST256P1, compressPoint, multiplyGenerator } from "./weierstrass";
+
+// The HMAC keys of the master key generation of each curve.
+const SLIP10_SEED_KEYS = {
+  ed25519: "ed25519 seed",
+  nist256p1: "Nist256p1 seed",
+};
+
+function isValidPrivateKey(key: bigint): boolean {
+  return key > BigInt(0) && key < NIST256P1.n;
+}
+
+async function createNode(
+  curve: ISlip10Node["curve"],
+  depth: number,
+  index: number,
+  privateKey: number[],
+  chainCode: number[],
+  cryptoProvider: ICryptoProvider,
+): Promise<ISlip10Node> {
+  const publicKey =
+    curve === "ed25519"
+      ? await ed25519PublicKey(privateKey, cryptoProvider)
+      : compressPoint(multiplyGenerator(NIST256P1, decodeBigInt(privateKey)));
+
+  return {
+    curve: curve,
+    depth: depth,
+    index: index,
+    chainCode: chainCode,
+    privateKey: privateKey,
+    publicKey: publicKey,
+  };
+}
+
+//
+// Derives the SLIP-0010 master key of the curve from the master secret, e.g.
+// as returned by `combineMnemonics`. The public keys are the 32 byte Ed25519
+// keys and the 33 byte compressed nist256p1 points respectively.
+//
+export async function deriveSlip10Root(
+  curve: ISlip10Node["curve"],
+  masterSecret: number[],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<ISlip10Node> {
+  const key = Array.from(SLIP10_SEED_KEYS[curve], (char) => char.charCodeAt(0));
+  let I = await cryptoProvider.hmacSha512(key, masterSecret);
+
+  // Any 32 bytes are a valid Ed25519 private key, whereas an invalid
+  // nist256p1 key is hashed again.
+  while (
+    curve === "nist256p1" &&
+    !isValidPrivateKey(decodeBigInt(I.slice(0, 32)))
+  ) {
+    I = await cryptoProvider.hmacSha512(key, I);
+  }
+
+  return createNode(curve, 0, 0, I.slice(0, 32), I.slice(32), cryptoProvider);
+}
+
+//
+// Derives the child of the private key at the index. Ed25519 only supports
+// hardened indices, i.e. from 2^31 on.
+//
+export async function deriveSlip10Child(
+  parent: ISlip10Node,
+  index: number,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<ISlip10Node> {
+  validateChildIndex(index);
+
+  const hardened = index >= HARDENED_OFFSET;
+  if (parent.curve === "ed25519" && !hardened) {
+    throw new InvalidPathError(
+      `Invalid child index (${String(index)}). Only hardened derivation is supported for ed25519.`,
+      { actual: index },
+    );
+  }
+
+  const serializedIndex = encodeBigInt(BigInt(index), 4);
+  const data = hardened
+    ? [0].concat(parent.privateKey)
+    : parent.publicKey.slice();
+  let I = await cryptoProvider.hmacSha512(
+    parent.chainCode,
+    data.concat(serializedIndex),
+  );
+
+  if (parent.curve === "ed25519") {
+    return createNode(
+      parent.curve,
+      parent.depth + 1,
+      index,
+      I.slice(0, 32),
+      I.slice(32),
+      cryptoProvider,
+    );
+  }
+
+  let IL = decodeBigInt(I.slice(0, 32));
+  let key = (IL + decodeBigInt(parent.privateKey)) % NIST256P1.n;
+  // An invalid key is derived again from the right half of the hash.
+  while (IL >= NIST256P1.n || key === BigInt(0)) {
+    I = await cryptoProvider.hmacSha512(
+      parent.chainCode,
+      [1].concat(I.slice(32)).concat(serializedIndex),
+    );
+    IL = decodeBigInt(I.slice(0, 32));
+    key = (IL + decodeBigInt(parent.privateKey)) % NIST256P1.n;
+  }
+
+  return createNode(
+    parent.curve,
+    parent.depth + 1,
+    index,
+    encodeBigInt(key, 32),
+    I.slice(32),
+    cryptoProvider,
+  );
+}
+
+//
+// Derives the key at a path like "m/44'/501'/0'/0'". See `parseBip32Path`.
+//
+export async function deriveSlip10Path(
+  root: ISlip10Node,
+  path: string,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<ISlip10Node> {
+  let node = root;
+  for (const index of parseBip32Path(path)) {
+    node = await deriveSlip10Child(node, index, cryptoProvider);
+  }
+  return node;
+}
@@ -1,27 +1,218 @@
-import { MIN_ENTROPY_BITS } from "./constants";
-import { ISlip39, ISlip39ConstructorOptions, ISlip39Node } from "./interfaces";
+import { bip39EntropyToMnemonic, bip39MnemonicToEntropy } from "./bip39";
+import { decodeHex } from "./codec";
+import {
+  ID_BITS_LENGTH,
+  MAX_ENTROPY_BITS,
+  MIN_ENTROPY_BITS,
+} from "./constants";
+import { webCryptoProvider } from "./crypto_provider";
+import {
+  InvalidParameterError,
+  InvalidPathError,
+  InvalidShareSetError,
+  MismatchedIdentifierError,
+  NotExtendableError,
+} from "./errors";
+import {
+  ICryptOptions,
+  ICryptoProvider,
+  IEntropySource,
+  IRecoveryReport,
+  ISlip39,
+  ISlip39AddMembersOptions,
+  ISlip39ConstructorOptions,
+  ISlip39FromArrayOptions,
+  ISlip39FromMnemonicsOptions,
+  ISlip39Json,
+  ISlip39Node,
+} from "./interfaces";
 import {
   combineMnemonics,
+  combineMnemonicsWithReport,
   crypt,
+  decodeMnemonic,
+  decodeMnemonics,
   encodeMnemonic,
+  extendGroupMembers,
+  extendGroupShares,
   generateIdentifier,
+  recoverEncryptedMasterSecret,
   splitSecret,
+  throwIfEmpty,
   validateMnemonic,
 } from "./slip39_helper";
-import { bitsToBytes, generateArray } from "./utils";
+import {
+  bitsToBytes,
+  decodeBigInt,
+  encodeBigInt,
+  generateArray,
+} from "./utils";
 
 const MAX_DEPTH = 2;
 
+// A random identifier equals the old one with a chance of 1 in 2^15, so
+// repeated collisions mean that the entropy source is broken or replayed.
+const MAX_IDENTIFIER_ATTEMPTS = 16;
+
+// The first segment of every path, denoting the root node.
+const PATH_ROOT = "r";
+
+// The version of the JSON representation, see `Slip39.toJSON()`.
+const JSON_VERSION = 1;
+
+//
+// Checks that a parameter encoded in a mnemonic of the JSON representation
+// matches the declared one.
+//
+function checkDeclared(
+  name: string,
+  expected: number,
+  actual: number,
+  groupIndex: number,
+  memberIndex: number,
+): void {
+  if (expected !== actual) {
+    throw new InvalidShareSetError(
+      `The mnemonic of member ${String(memberIndex + 1)} of group ${String(groupIndex + 1)} does not match the declared ${name} (${String(expected)}). It encodes ${String(actual)}.`,
+      {
+        groupIndex: groupIndex,
+        memberIndex: memberIndex,
+        expected: expected,
+        actual: actual,
+      },
+    );
+  }
+}
+
+function validateGroups(
+  groups: (number | string)[][],
+  groupThreshold?: number,
+): void {
+  if (typeof groupThreshold !== "undefined" && groupThreshold > groups.length) {
+    throw new InvalidParameterError(
+      `The requested group threshold (${String(groupThreshold)}) must not exceed the number of groups (${String(groups.length)}).`,
+      { expected: groups.length, actual: groupThreshold },
+    );
+  }
+
+  for (const item of groups) {
+    if (
+      item.length < 2 ||
+      typeof item[0] !== "number" ||
+      typeof item[1] !== "number"
+    ) {
+      throw new InvalidParameterError("Group array must contain two numbers");
+    }
+
+    if (item.slice(2).some((label) => typeof label !== "string")) {
+      throw new InvalidParameterError(
+        "The description and the member labels of a group must be strings.",
+      );
+    }
+
+    if (item.length > 3 + item[1]) {
+      throw new InvalidParameterError(
+        `The group (${item.join()}) has more member labels than members.`,
+        { expected: item[1], actual: item.length - 3 },
+      );
+    }
+  }
+
+  groups.forEach((item: any) => {
+    if (item[0] === 1 && item[1] > 1) {
+      throw new InvalidParameterError(
+        `Creating multiple member shares with member threshold 1 is not allowed. Use 1-of-1 member sharing instead. ${groups.join()}`,
+      );
+    }
+  });
+}
+
+//
+// The leaf items of the members of a group item, e.g. of
+// [2, 3, "Family", "mom", "dad"]. The members without a label of their own
+// take the description of the group.
+//
+function memberItems(item: (number | string)[]): (number | string)[][] {
+  const n = item[0] as number;
+  const m = item[1] as number;
+  const d = item.length > 2 && typeof item[2] === "string" ? item[2] : "";
+
+  // Generate leaf members, means their `m` is `0`
+  return generateArray([], m, (idx) => {
+    const label = item[3 + idx];
+    return [n, 0, typeof label === "string" ? label : d];
+  }) as (number | string)[][];
+}
+
+//
+// Splits a path like "r/3/1" or "r/Family/mom" into the indices and labels
+// of its segments. A backslash escapes the next character, e.g. "\/" stands
+// for a "/" in a label. A segment of unescaped digits is an index, therefore
+// a label consisting of digits must be escaped, e.g. "\3".
+//
+function parsePath(path: string): (number | string)[] {
+  const segments: { value: string; escaped: boolean }[] = [];
+  let current = { value: "", escaped: false };
+  for (let i = 0; i < path.length; i++) {
+    if (path[i] === "/") {
+      segments.push(current);
+      current = { value: "", escaped: false };
+    } else if (path[i] === "\\") {
+      if (i + 1 === path.length) {
+        throw new InvalidPathError(
+          `Invalid path (${path}). It must not end with an escape character.`,
+        );
+      }
+      i = i + 1;
+      current.value = current.value + path[i];
+      current.escaped = true;
+    } else {
+      current.value = current.value + path[i];
+    }
+  }
+  segments.push(current);
+
+  const [root, ...children] = segments;
+  if (
+    root.escaped ||
+    root.value !== PATH_ROOT ||
+    children.some((segment) => segment.value.length === 0)
+  ) {
+    throw new InvalidPathError(
+      'Expected valid path e.g. "r/0/0" or "r/Family/mom".',
+    );
+  }
+
+  return children.map((segment) =>
+    !segment.escaped && /^\d+$/.test(segment.value)
+      ? parseInt(segment.value, 10)
+      : segment.value,
+  );
+}
+
+//
+// Whether a value of a parsed JSON document is an object, i.e. not a
+// primitive, null or an array.
+//
+function isObject(value: unknown): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
 /**
  * Slip39Node
  * For root node, description refers to the whole set's title e.g. "Hardware wallet X SSSS shares"
  * For children nodes, description refers to the group e.g. "Family group: mom, dad, sister, wife"
+ * and for the members to their label e.g. "mom", which defaults to the group's description.
+ * The path, e.g. "r/3/1", and the thresholds are set once the node is part of a `Slip39` tree.
  */
 class Slip39Node implements ISlip39Node {
   public mnemonic: string;
   public readonly index: number;
   public children: Slip39Node[];
   public description: string;
+  public path = PATH_ROOT;
+  public groupThreshold = 0;
+  public memberThreshold?: number;
 
   constructor(
     index = 0,
@@ -45,6 +236,38 @@ class Slip39Node implements ISlip39Node {
   }
 }
 
+//
+// Looks up the child of a node by its share index, as extended trees do not
+// necessarily start from index 0, or by its label.
+//
+function findChild(node: Slip39Node, segment: number | string): Slip39Node {
+  if (typeof segment === "number") {
+    const child = node.children.find((item) => item.index === segment);
+    if (typeof child === "undefined") {
+      const indices = node.children.map((item) => item.index).join(", ");
+      throw new InvalidPathError(
+        `The path index (${String(segment)}) does not match any of the children indices (${indices}).`,
+      );
+    }
+    return child;
+  }
+
+  const matches = node.children.filter((item) => item.description === segment);
+  if (matches.length === 0) {
+    const labels = node.children.map((item) => item.description).join(", ");
+    throw new InvalidPathError(
+      `The path label (${segment}) does not match any of the children labels (${labels}).`,
+    );
+  }
+  if (matches.length > 1) {
+    const indices = matches.map((item) => item.index).join(", ");
+    throw new InvalidPathError(
+      `The path label (${segment}) is ambiguous. It matches the children indices (${indices}).`,
+    );
+  }
+  return matches[0];
+}
+
 //
 // Implementation of the SLIP-0039: Shamir's Secret-Sharing for Mnemonic Codes
 // see: https://github.com/satoshilabs/slips/blob/master/slip-0039.md)
@@ -55,7 +278,9 @@ export class Slip39 implements ISlip39 {
   public readonly groupThreshold: number;
   public readonly identifier: number[];
   public readonly iterationExponent: number;
-  public root = new Slip39Node();
+  public readonly cryptoProvider: ICryptoProvider;
+  public readonly entropySource: IEntropySource;
+  private tree = new Slip39Node();
 
   constructor({
     iterationExponent = 0,
@@ -63,27 +288,49 @@ export class Slip39 implements ISlip39 {
     identifier,
     groupCount,
     groupThreshold,
+    cryptoProvider = webCryptoProvider,
+    entropySource = cryptoProvider,
   }: ISlip39ConstructorOptions) {
     this.iterationExponent = iterationExponent;
     this.extendableBackupFlag = extendableBackupFlag;
+    this.cryptoProvider = cryptoProvider;
+    this.entropySource = entropySource;
 
     if (identifier.length === 0) {
-      throw new Error("Missing required parameter identifier");
+      throw new InvalidParameterError("Missing required parameter identifier");
     }
     if (identifier.length !== 2) {
-      throw new Error("Identifier parameter length must be 2");
+      throw new InvalidParameterError("Identifier parameter length must be 2", {
+        expected: 2,
+        actual: identifier.length,
+      });
     }
     this.identifier = identifier;
 
     if (!groupCount) {
-      throw new Error("Missing required parameter groupCount");
+      throw new InvalidParameterError("Missing required parameter groupCount");
     }
     this.groupCount = groupCount;
 
     if (!groupThreshold) {
-      throw new Error("Missing required parameter groupThreshold");
+      throw new InvalidParameterError(
+        "Missing required parameter groupThreshold",
+      );
     }
     this.groupThreshold = groupThreshold;
+    this.describeTree(this.tree);
+  }
+
+  get root(): Slip39Node {
+    return this.tree;
+  }
+
+  /**
+   * Replaces the tree and sets the path and the thresholds of its nodes.
+   */
+  set root(root: Slip39Node) {
+    this.describeTree(root);
+    this.tree = root;
   }
 
   static async fromArray(
@@ -92,43 +339,52 @@ export class Slip39 implements ISlip39 {
       extendableBackupFlag = 1,
       groups = [[1, 1, "Default 1-of-1 group share"]],
       iterationExponent = 0,
-      identifier = generateIdentifier(),
+      cryptoProvider = webCryptoProvider,
+      entropySource = cryptoProvider,
+      identifier = generateIdentifier(entropySource),
       passphrase = "",
       groupThreshold = 1,
       title = "My default slip39 shares",
-    } = {},
+      signal,
+      onProgress,
+    }: ISlip39FromArrayOptions = {},
   ): Promise<Slip39> {
     if (masterSecret.length * 8 < MIN_ENTROPY_BITS) {
-      throw Error(
+      throw new InvalidParameterError(
         `The length of the master secret (${String(masterSecret.length)} bytes) must be at least ${String(bitsToBytes(MIN_ENTROPY_BITS))} bytes.`,
+        {
+          expected: bitsToBytes(MIN_ENTROPY_BITS),
+          actual: masterSecret.length,
+        },
+      );
+    }
+
+    // Longer secrets would result in mnemonics, which neither hardware
+    // wallets nor `extractMnemonics()` recognize.
+    if (masterSecret.length * 8 > MAX_ENTROPY_BITS) {
+      throw new InvalidParameterError(
+        `The length of the master secret (${String(masterSecret.length)} bytes) must be at most ${String(bitsToBytes(MAX_ENTROPY_BITS))} bytes.`,
+        {
+          expected: bitsToBytes(MAX_ENTROPY_BITS),
+          actual: masterSecret.length,
+        },
       );
     }
 
     if (masterSecret.length % 2 !== 0) {
-      throw Error(
+      throw new InvalidParameterError(
         "The length of the master secret in bytes must be an even number.",
+        { actual: masterSecret.length },
       );
     }
 
     if (!/^[\x20-\x7E]*$/.test(passphrase)) {
-      throw Error(
+      throw new InvalidParameterError(
         "The passphrase must contain only printable ASCII characters (code points 32-126).",
       );
     }
 
-    if (groupThreshold > groups.length) {
-      throw Error(
-        `The requested group threshold (${String(groupThreshold)}) must not exceed the number of groups (${String(groups.length)}).`,
-      );
-    }
-
-    groups.forEach((item: any) => {
-      if (item[0] === 1 && item[1] > 1) {
-        throw Error(
-          `Creating multiple member shares with member threshold 1 is not allowed. Use 1-of-1 member sharing instead. ${groups.join()}`,
-        );
-      }
-    });
+    validateGroups(groups, groupThreshold);
 
     const slip = new Slip39({
       iterationExponent: iterationExponent,
@@ -136,6 +392,8 @@ export class Slip39 implements ISlip39 {
       identifier: identifier,
       groupCount: groups.length,
       groupThreshold: groupThreshold,
+      cryptoProvider: cryptoProvider,
+      entropySource: entropySource,
     });
 
     const encryptedMasterSecret = await crypt(
@@ -144,6 +402,12 @@ export class Slip39 implements ISlip39 {
       iterationExponent,
       slip.identifier,
       extendableBackupFlag,
+      true,
+      {
+        signal: signal,
+        onProgress: onProgress,
+        cryptoProvider: cryptoProvider,
+      },
     );
 
     slip.root = await slip.buildRecursive(
@@ -155,6 +419,44 @@ export class Slip39 implements ISlip39 {
     return slip;
   }
 
+  static async fromBytes(
+    masterSecret: Uint8Array,
+    options: ISlip39FromArrayOptions = {},
+  ): Promise<Slip39> {
+    return Slip39.fromArray(Array.from(masterSecret), options);
+  }
+
+  /**
+   * Creates the shares of a master secret given as a hex string, e.g.
+   * "bb54aac4b89dc868ba37d9cc21b2cece". See `decodeHex` for the accepted
+   * format.
+   */
+  static async fromHex(
+    masterSecret: string,
+    options: ISlip39FromArrayOptions = {},
+  ): Promise<Slip39> {
+    return Slip39.fromArray(Array.from(decodeHex(masterSecret)), options);
+  }
+
+  /**
+   * Creates the shares of the entropy of a BIP39 mnemonic, so that the BIP39
+   * mnemonic can be restored with `recoverBip39Mnemonic`. Beware that the
+   * wallet of the shares, which uses the master secret as the BIP32 seed,
+   * differs from the wallet of the BIP39 mnemonic, which uses the seed derived
+   * by `bip39MnemonicToSeed`. Only the entropy path, i.e. restoring the BIP39
+   * mnemonic and importing it, leads to the same wallet.
+   */
+  static async fromBip39Mnemonic(
+    mnemonic: string,
+    options: ISlip39FromArrayOptions = {},
+  ): Promise<Slip39> {
+    const entropy = await bip39MnemonicToEntropy(
+      mnemonic,
+      options.cryptoProvider,
+    );
+    return Slip39.fromArray(entropy, options);
+  }
+
   async buildRecursive(
     currentNode: Slip39Node,
     nodes: (number | string)[][],
@@ -178,7 +480,13 @@ export class Slip39 implements ISlip39 {
       return currentNode;
     }
 
-    const secretShares = await splitSecret(threshold, nodes.length, secret);
+    const secretShares = await splitSecret(
+      threshold,
+      nodes.length,
+      secret,
+      this.cryptoProvider,
+      this.entropySource,
+    );
     let children: Slip39Node[] = [];
     let idx = 0;
 
@@ -188,24 +496,19 @@ export class Slip39 implements ISlip39 {
         typeof item[0] !== "number" ||
         typeof item[1] !== "number"
       ) {
-        throw new Error("Group array must contain two numbers");
+        throw new InvalidParameterError("Group array must contain two numbers");
       }
 
       // n=threshold
       const n = item[0];
-      // m=members
-      const m = item[1];
       // d=description
       const d: string =
         item.length > 2 && typeof item[2] === "string" ? item[2] : "";
 
-      // Generate leaf members, means their `m` is `0`
-      const members = generateArray([], m, () => [n, 0, d]) as number[][];
-
       const node = new Slip39Node(idx, d);
       const branch = await this.buildRecursive(
         node,
-        members,
+        memberItems(item),
         secretShares[idx],
         n,
         currentNode.index,
@@ -218,17 +521,486 @@ export class Slip39 implements ISlip39 {
     return currentNode;
   }
 
+  /**
+   * Recovers the master secret. The decryption, which takes long at high
+   * iteration exponents, reports its progress to `onProgress` after each
+   * round and rejects with a `CancelledError` once the `signal` is aborted.
+   */
   static async recoverSecret(
     mnemonics: string[],
     passphrase = "",
+    options: ICryptOptions = {},
   ): Promise<number[]> {
-    return combineMnemonics(mnemonics, passphrase);
+    return combineMnemonics(mnemonics, passphrase, options);
+  }
+
+  static async recoverSecretBytes(
+    mnemonics: string[],
+    passphrase = "",
+    options: ICryptOptions = {},
+  ): Promise<Uint8Array> {
+    return Uint8Array.from(
+      await combineMnemonics(mnemonics, passphrase, options),
+    );
+  }
+
+  /**
+   * Recovers the master secret and encodes it as a BIP39 mnemonic, i.e. the
+   * BIP39 mnemonic the shares were created from by `fromBip39Mnemonic`. The
+   * master secret must be 16, 20, 24, 28 or 32 bytes long.
+   */
+  static async recoverBip39Mnemonic(
+    mnemonics: string[],
+    passphrase = "",
+    options: ICryptOptions = {},
+  ): Promise<string> {
+    return bip39EntropyToMnemonic(
+      await combineMnemonics(mnemonics, passphrase, options),
+      options.cryptoProvider,
+    );
+  }
+
+  /**
+   * Recovers the master secret like `recoverSecret`, but reports for each
+   * mnemonic whether it was used, agrees or disagrees with the recovered
+   * secret, instead of failing on inconsistent surplus mnemonics.
+   */
+  static async recoverSecretWithReport(
+    mnemonics: string[],
+    passphrase = "",
+    options: ICryptOptions = {},
+  ): Promise<IRecoveryReport> {
+    return combineMnemonicsWithReport(mnemonics, passphrase, options);
+  }
+
+  /**
+   * Creates new member mnemonics for an existing group from at least member
+   * threshold mnemonics of that group. The new mnemonics are placed at the
+   * given (e.g. lost) member indices, or at `count` unused ones, and combine
+   * with the existing mnemonics of the group.
+   */
+  static async addMembers(
+    mnemonics: string[],
+    {
+      count = 1,
+      memberIndices = [],
+      cryptoProvider = webCryptoProvider,
+    }: ISlip39AddMembersOptions = {},
+  ): Promise<string[]> {
+    return extendGroupMembers(mnemonics, count, memberIndices, cryptoProvider);
+  }
+
+  /**
+   * Adds new groups to an existing extendable backup. The group shares of a
+   * quorum of groups are recovered from the mnemonics and the new groups are
+   * generated at unused group indices. The returned tree only contains the new
+   * groups, whose mnemonics combine with the mnemonics of the existing groups.
+   *
+   * The group count encoded in the mnemonics cannot change, therefore the new
+   * groups are placed at indices from the group count up to 15. SLIP-0039 does
+   * not define such groups and other implementations, e.g. hardware wallets,
+   * may reject them on recovery. Check the recovery with the target wallet
+   * before relying on the new groups.
+   */
+  static async extendGroups(
+    mnemonics: string[],
+    newGroups: (number | string)[][],
+    {
+      title = "My extended slip39 shares",
+      cryptoProvider = webCryptoProvider,
+      entropySource = cryptoProvider,
+    }: {
+      title?: string;
+      cryptoProvider?: ICryptoProvider;
+      entropySource?: IEntropySource;
+    } = {},
+  ): Promise<Slip39> {
+    throwIfEmpty(mnemonics);
+
+    validateGroups(newGroups);
+
+    const decoded = decodeMnemonics(mnemonics);
+    const groupShares = await extendGroupShares(
+      decoded,
+      newGroups.length,
+      cryptoProvider,
+    );
+
+    const slip = new Slip39({
+      iterationExponent: decoded.iterationExponent,
+      extendableBackupFlag: decoded.extendableBackupFlag,
+      identifier: encodeBigInt(
+        BigInt(decoded.identifier),
+        bitsToBytes(ID_BITS_LENGTH),
+      ),
+      groupCount: decoded.groupCount,
+      groupThreshold: decoded.groupThreshold,
+      cryptoProvider: cryptoProvider,
+      entropySource: entropySource,
+    });
+
+    const root = new Slip39Node(0, title);
+    let idx = 0;
+    for (const [groupIndex, groupShare] of groupShares.entries()) {
+      const item = newGroups[idx];
+      const n = item[0] as number;
+      const d: string =
+        item.length > 2 && typeof item[2] === "string" ? item[2] : "";
+
+      const branch = await slip.buildRecursive(
+        new Slip39Node(groupIndex, d),
+        memberItems(item),
+        groupShare,
+        n,
+      );
+      root.children.push(branch);
+      idx = idx + 1;
+    }
+    slip.root = root;
+    return slip;
+  }
+
+  /**
+   * Re-shares the secret of an extendable backup under a new group policy.
+   * The encrypted master secret of an extendable backup does not depend on the
+   * identifier, so it is recovered from the mnemonics and split again under a
+   * fresh identifier, without ever decrypting the master secret.
+   */
+  static async reshare(
+    mnemonics: string[],
+    {
+      groups,
+      groupThreshold,
+      title = "My reshared slip39 shares",
+      cryptoProvider = webCryptoProvider,
+      entropySource = cryptoProvider,
+    }: {
+      groups: (number | string)[][];
+      groupThreshold: number;
+      title?: string;
+      cryptoProvider?: ICryptoProvider;
+      entropySource?: IEntropySource;
+    },
+  ): Promise<Slip39> {
+    throwIfEmpty(mnemonics);
+
+    validateGroups(groups, groupThreshold);
+
+    const decoded = decodeMnemonics(mnemonics);
+    if (!decoded.extendableBackupFlag) {
+      throw new NotExtendableError(
+        "Only extendable backups can be reshared. The extendable backup flag of the mnemonics is not set.",
+      );
+    }
+
+    let identifier = generateIdentifier(entropySource);
+    let attempts = 1;
+    while (Number(decodeBigInt(identifier)) === decoded.identifier) {
+      if (attempts === MAX_IDENTIFIER_ATTEMPTS) {
+        throw new InvalidParameterError(
+          `The entropy source kept returning the identifier of the mnemonics (${String(decoded.identifier)}) in ${String(attempts)} attempts.`,
+          { actual: decoded.identifier },
+        );
+      }
+      identifier = generateIdentifier(entropySource);
+      attempts = attempts + 1;
+    }
+
+    const slip = new Slip39({
+      iterationExponent: decoded.iterationExponent,
+      extendableBackupFlag: decoded.extendableBackupFlag,
+      identifier: identifier,
+      groupCount: groups.length,
+      groupThreshold: groupThreshold,
+      cryptoProvider: cryptoProvider,
+      entropySource: entropySource,
+    });
+
+    const encryptedMasterSecret = await recoverEncryptedMasterSecret(
+      decoded,
+      cryptoProvider,
+    );
+
+    slip.root = await slip.buildRecursive(
+      new Slip39Node(0, title),
+      groups,
+      encryptedMasterSecret,
+      groupThreshold,
+    );
+    return slip;
+  }
+
+  /**
+   * Rebuilds the share tree from the mnemonics alone, e.g. the ones kept in a
+   * vault, without the master secret. The mnemonics must be a consistent set
+   * from which the encrypted master secret can be recovered. The title and the
+   * group descriptions are not encoded in the mnemonics, but can be given as
+   * labels, indexed by group index, and so can the member labels, indexed by
+   * group and member index. Unlabelled members inherit the description of
+   * their group, as in `fromArray()`.
+   */
+  static async fromMnemonics(
+    mnemonics: string[],
+    {
+      title = "",
+      groups = [],
+      members = [],
+      cryptoProvider = webCryptoProvider,
+    }: ISlip39FromMnemonicsOptions = {},
+  ): Promise<Slip39> {
+    throwIfEmpty(mnemonics);
+
+    const decoded = decodeMnemonics(mnemonics);
+    await recoverEncryptedMasterSecret(decoded, cryptoProvider);
+
+    const slip = new Slip39({
+      iterationExponent: decoded.iterationExponent,
+      extendableBackupFlag: decoded.extendableBackupFlag,
+      identifier: encodeBigInt(
+        BigInt(decoded.identifier),
+        bitsToBytes(ID_BITS_LENGTH),
+      ),
+      groupCount: decoded.groupCount,
+      groupThreshold: decoded.groupThreshold,
+      cryptoProvider: cryptoProvider,
+    });
+
+    // Duplicates of the same mnemonic are merged, conflicting ones have been
+    // rejected by decoding.
+    const shares = new Map<number, Map<number, string>>();
+    mnemonics.forEach((mnemonic) => {
+      const share = decodeMnemonic(mnemonic);
+      let group = shares.get(share.groupIndex);
+      if (typeof group === "undefined") {
+        group = new Map<number, string>();
+        shares.set(share.groupIndex, group);
+      }
+      group.set(share.memberIndex, mnemonic);
+    });
+
+    const byIndex = (a: number, b: number): number => a - b;
+    const children = Array.from(shares.keys())
+      .sort(byIndex)
+      .map((groupIndex) => {
+        const group = shares.get(groupIndex);
+        const description =
+          groupIndex < groups.length ? groups[groupIndex] : "";
+        const labels = groupIndex < members.length ? members[groupIndex] : [];
+        const leaves = Array.from(group.keys())
+          .sort(byIndex)
+          .map((memberIndex) => {
+            const label =
+              memberIndex < labels.length ? labels[memberIndex] : description;
+            return new Slip39Node(memberIndex, label, group.get(memberIndex));
+          });
+        return new Slip39Node(groupIndex, description, "", leaves);
+      });
+
+    slip.root = new Slip39Node(0, title, "", children);
+    return slip;
+  }
+
+  /**
+   * Restores a share tree, including the title and the descriptions which are
+   * not encoded in the mnemonics, from its JSON representation (see
+   * `toJSON()`). Every mnemonic is decoded and must match the declared
+   * parameters, group and member.
+   */
+  static fromJSON(json: ISlip39Json | string): Slip39 {
+    let data = json as ISlip39Json;
+    if (typeof json === "string") {
+      try {
+        data = JSON.parse(json) as ISlip39Json;
+      } catch (e) {
+        if (e instanceof SyntaxError) {
+          throw new InvalidParameterError(
+            `The JSON representation cannot be parsed. ${e.message}`,
+          );
+        }
+        throw e;
+      }
+    }
+
+    if (!isObject(data)) {
+      throw new InvalidParameterError(
+        "The JSON representation must be an object.",
+      );
+    }
+
+    if (data.version !== JSON_VERSION) {
+      throw new InvalidParameterError(
+        `Unsupported version of the JSON representation (${String(data.version)}). Expected ${String(JSON_VERSION)}.`,
+        { expected: JSON_VERSION, actual: data.version },
+      );
+    }
+
+    const parameters = [
+      data.identifier,
+      data.iterationExponent,
+      data.extendableBackupFlag,
+      data.groupThreshold,
+      data.groupCount,
+    ];
+    if (!parameters.every((item) => Number.isInteger(item))) {
+      throw new InvalidParameterError(
+        "The identifier, iteration exponent, extendable backup flag, group threshold and group count of the JSON representation must be integers.",
+      );
+    }
+
+    if (!Array.isArray(data.groups) || data.groups.length === 0) {
+      throw new InvalidParameterError(
+        "The JSON representation must contain at least one group.",
+      );
+    }
+
+    const slip = new Slip39({
+      iterationExponent: data.iterationExponent,
+      extendableBackupFlag: data.extendableBackupFlag,
+      identifier: encodeBigInt(
+        BigInt(data.identifier),
+        bitsToBytes(ID_BITS_LENGTH),
+      ),
+      groupCount: data.groupCount,
+      groupThreshold: data.groupThreshold,
+    });
+
+    const groupIndices = new Set<number>();
+    const children = data.groups.map((group) => {
+      if (
+        !isObject(group) ||
+        !Number.isInteger(group.index) ||
+        !Number.isInteger(group.memberThreshold)
+      ) {
+        throw new InvalidParameterError(
+          "Every group of the JSON representation must be an object with an integer index and member threshold.",
+        );
+      }
+
+      if (groupIndices.has(group.index)) {
+        throw new InvalidShareSetError(
+          `The group index (${String(group.index)}) is declared more than once.`,
+          { groupIndex: group.index },
+        );
+      }
+      groupIndices.add(group.index);
+
+      if (!Array.isArray(group.members) || group.members.length === 0) {
+        throw new InvalidParameterError(
+          `Group ${String(group.index + 1)} of the JSON representation must contain at least one member.`,
+          { groupIndex: group.index },
+        );
+      }
+
+      const memberIndices = new Set<number>();
+      const members = group.members.map((member) => {
+        if (
+          !isObject(member) ||
+          !Number.isInteger(member.index) ||
+          typeof member.mnemonic !== "string"
+        ) {
+          throw new InvalidParameterError(
+            `Every member of group ${String(group.index + 1)} of the JSON representation must be an object with an integer index and a string mnemonic.`,
+            { groupIndex: group.index },
+          );
+        }
+
+        if (memberIndices.has(member.index)) {
+          throw new InvalidShareSetError(
+            `The member index (${String(member.index)}) of group ${String(group.index + 1)} is declared more than once.`,
+            { groupIndex: group.index, memberIndex: member.index },
+          );
+        }
+        memberIndices.add(member.index);
+
+        const decoded = decodeMnemonic(member.mnemonic);
+        if (
+          decoded.identifier !== data.identifier ||
+          decoded.iterationExponent !== data.iterationExponent ||
+          decoded.extendableBackupFlag !== data.extendableBackupFlag
+        ) {
+          throw new MismatchedIdentifierError(
+            `The mnemonic of member ${String(member.index + 1)} of group ${String(group.index + 1)} does not match the declared identifier, iteration exponent and extendable backup flag.`,
+            { groupIndex: group.index, memberIndex: member.index },
+          );
+        }
+
+        const declared: [string, number, number][] = [
+          ["group threshold", data.groupThreshold, decoded.groupThreshold],
+          ["group count", data.groupCount, decoded.groupCount],
+          ["group index", group.index, decoded.groupIndex],
+          ["member threshold", group.memberThreshold, decoded.memberThreshold],
+          ["member index", member.index, decoded.memberIndex],
+        ];
+        declared.forEach(([name, expected, actual]) => {
+          checkDeclared(name, expected, actual, group.index, member.index);
+        });
+
+        return new Slip39Node(
+          member.index,
+          typeof member.description === "string" ? member.description : "",
+          member.mnemonic,
+        );
+      });
+
+      return new Slip39Node(
+        group.index,
+        typeof group.description === "string" ? group.description : "",
+        "",
+        members,
+      );
+    });
+
+    slip.root = new Slip39Node(
+      0,
+      typeof data.title === "string" ? data.title : "",
+      "",
+      children,
+    );
+    return slip;
+  }
+
+  /**
+   * Returns the versioned JSON representation of the share tree, which is
+   * also what `JSON.stringify()` serializes. Unlike the mnemonics, it keeps
+   * the title and the descriptions of the groups and members. See the README
+   * for the schema.
+   */
+  toJSON(): ISlip39Json {
+    return {
+      version: JSON_VERSION,
+      title: this.root.description,
+      identifier: Number(decodeBigInt(this.identifier)),
+      iterationExponent: this.iterationExponent,
+      extendableBackupFlag: this.extendableBackupFlag,
+      groupThreshold: this.groupThreshold,
+      groupCount: this.groupCount,
+      groups: this.root.children.map((group) => {
+        return {
+          index: group.index,
+          description: group.description,
+          memberThreshold: decodeMnemonic(group.mnemonics[0]).memberThreshold,
+          members: group.children.map((member) => {
+            return {
+              index: member.index,
+              description: member.description,
+              mnemonic: member.mnemonic,
+            };
+          }),
+        };
+      }),
+    };
   }
 
   static validateMnemonic(mnemonic: string): boolean {
     return validateMnemonic(mnemonic);
   }
 
+  /**
+   * Returns the node at a path of share indices, e.g. "r/3/1", or of labels,
+   * i.e. the descriptions of the groups and members, e.g. "r/Family/mom".
+   * Indices and labels can be mixed. See `escapePathLabel` for labels
+   * containing "/" or consisting of digits.
+   */
   fromPath(path: string): Slip39Node {
     this.validatePath(path);
 
@@ -238,37 +1010,81 @@ export class Slip39 implements ISlip39 {
       return this.root;
     }
 
-    return children.reduce((prev, childNumber) => {
-      const childrenLen = prev.children.length;
-      if (childNumber >= childrenLen) {
-        throw new Error(
-          `The path index (${String(childNumber)}) exceeds the children index (${String(childrenLen - 1)}).`,
-        );
+    return children.reduce(findChild, this.root);
+  }
+
+  /**
+   * Returns the path of a node of the tree, e.g. "r/3/1". With `useLabels`,
+   * the segments are the escaped labels, e.g. "r/Family/mom", unless a label
+   * is empty or shared by a sibling, in which case the index is used.
+   */
+  pathOf(node: ISlip39Node, useLabels = false): string {
+    const ancestry: Slip39Node[] = [this.root];
+    if (node !== this.root) {
+      const group = this.root.children.find(
+        (item) => item === node || item.children.some((leaf) => leaf === node),
+      );
+      if (typeof group === "undefined") {
+        throw new InvalidPathError("The node is not part of the share tree.");
+      }
+      ancestry.push(group);
+      if (group !== node) {
+        ancestry.push(group.children.find((leaf) => leaf === node));
       }
+    }
 
-      return prev.children[childNumber];
-    }, this.root);
+    return ancestry.slice(1).reduce((path, child, i) => {
+      const siblings = ancestry[i].children.filter(
+        (item) => item.description === child.description,
+      );
+      const segment =
+        useLabels && child.description !== "" && siblings.length === 1
+          ? Slip39.escapePathLabel(child.description)
+          : String(child.index);
+      return `${path}/${segment}`;
+    }, PATH_ROOT);
   }
 
-  validatePath(path: string): void {
-    if (!path.match(/(^r)(\/\d{1,2}){0,2}$/)) {
-      throw new Error('Expected valid path e.g. "r/0/0".');
-    }
+  /**
+   * Escapes a label for a path: slashes and backslashes are prefixed with a
+   * backslash, and so is a label consisting of digits, which would be read
+   * as an index.
+   */
+  static escapePathLabel(label: string): string {
+    const escaped = label.replace(/[\\/]/g, (char) => "\\" + char);
+    return /^\d+$/.test(escaped) ? "\\" + escaped : escaped;
+  }
 
-    const depth = path.split("/");
-    const pathLength = depth.length - 1;
+  validatePath(path: string): void {
+    const pathLength = parsePath(path).length;
     if (pathLength > MAX_DEPTH) {
-      throw new Error(
+      throw new InvalidPathError(
         `Path's (${path}) max depth (${String(MAX_DEPTH)}) is exceeded (${String(pathLength)}).`,
       );
     }
   }
 
-  parseChildren(path: string): number[] {
-    const splitted = path.split("/").slice(1);
+  parseChildren(path: string): (number | string)[] {
+    return parsePath(path);
+  }
+
+  private describeTree(root: Slip39Node): void {
+    root.path = PATH_ROOT;
+    root.groupThreshold = this.groupThreshold;
+    root.children.forEach((group) => {
+      const memberThreshold =
+        group.children.length === 0
+          ? undefined
+          : decodeMnemonic(group.children[0].mnemonic).memberThreshold;
 
-    return splitted.map((pathFragment) => {
-      return parseInt(pathFragment);
+      group.path = `${PATH_ROOT}/${String(group.index)}`;
+      group.groupThreshold = this.groupThreshold;
+      group.memberThreshold = memberThreshold;
+      group.children.forEach((member) => {
+        member.path = `${group.path}/${String(member.index)}`;
+        member.groupThreshold = this.groupThreshold;
+        member.memberThreshold = memberThreshold;
+      });
     });
   }
 }
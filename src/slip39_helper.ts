@@ -1,5 +1,3 @@
-import { subtle } from "uncrypto";
-
 import {
   CHECKSUM_WORDS_LENGTH,
   CUSTOMIZATION_STRING_EXTENDABLE,
@@ -21,9 +19,32 @@ import {
   ROUND_COUNT,
   SECRET_INDEX,
   WORD_LIST,
-  WORD_LIST_MAP,
 } from "./constants";
-import { IDecodedMnemonic, IDecodedMnemonics } from "./interfaces";
+import { webCryptoProvider } from "./crypto_provider";
+import {
+  CancelledError,
+  DigestMismatchError,
+  InsufficientGroupsError,
+  InsufficientMembersError,
+  InvalidChecksumError,
+  InvalidIterationExponentError,
+  InvalidMnemonicError,
+  InvalidPaddingError,
+  InvalidParameterError,
+  InvalidShareSetError,
+  MismatchedIdentifierError,
+  NotExtendableError,
+  Slip39Error,
+} from "./errors";
+import {
+  ICryptOptions,
+  ICryptoProvider,
+  IDecodedMnemonic,
+  IDecodedMnemonics,
+  IEntropySource,
+  IRecoveryReport,
+  IShareAgreement,
+} from "./interfaces";
 import {
   bitsToBytes,
   bitsToWords,
@@ -32,8 +53,25 @@ import {
   encodeHexString,
   generateArray,
   listsAreEqual,
-  randomBytes,
 } from "./utils";
+import { resolveWord } from "./words";
+
+// A point of a polynomial, i.e. a member share or a group share.
+export interface ISharePoint {
+  x: number;
+  value: number[];
+}
+
+export interface IConsistentPoints {
+  secret: number[];
+  subset: number[];
+  agreeing: boolean[];
+}
+
+interface IGroupShareCheck {
+  groupShares: Map<number, number[]>;
+  statuses: Map<number, Map<number, IShareAgreement["status"]>>;
+}
 
 //
 // The round function used internally by the Feistel cipher.
@@ -44,31 +82,35 @@ async function roundFunction(
   exp: number,
   salt: number[],
   secret: number[],
+  cryptoProvider: ICryptoProvider,
 ): Promise<number[]> {
   const saltedSecret = salt.concat(secret);
   const roundedPhrase = [round].concat(passphrase);
   const iterations = (ITERATION_COUNT << exp) / ROUND_COUNT;
 
-  return subtle
-    .importKey("raw", new Uint8Array(roundedPhrase), "PBKDF2", false, [
-      "deriveBits",
-    ])
-    .then((key) => {
-      return subtle.deriveBits(
-        {
-          name: "PBKDF2",
-          hash: "SHA-256",
-          salt: new Uint8Array(saltedSecret),
-          iterations: iterations,
-        },
-        key,
-        secret.length * 8,
-      );
-    })
-    .then((derived: ArrayBuffer) => {
-      // TODO: Can we use a Uint8Array instead of a Buffer here?
-      return Array.prototype.slice.call(new Uint8Array(derived), 0);
+  return cryptoProvider.pbkdf2Sha256(
+    roundedPhrase,
+    saltedSecret,
+    iterations,
+    secret.length,
+  );
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (typeof signal !== "undefined" && signal.aborted) {
+    throw new CancelledError("The operation was cancelled.");
+  }
+}
+
+//
+// Guards the entry points taking a list of mnemonics against an empty one.
+//
+export function throwIfEmpty(mnemonics: string[]): void {
+  if (mnemonics.length === 0) {
+    throw new InvalidParameterError("The list of mnemonics is empty.", {
+      actual: 0,
     });
+  }
 }
 
 export async function crypt(
@@ -78,11 +120,17 @@ export async function crypt(
   identifier: number[],
   extendableBackupFlag: number,
   encrypt = true,
+  {
+    signal,
+    onProgress,
+    cryptoProvider = webCryptoProvider,
+  }: ICryptOptions = {},
 ): Promise<number[]> {
   // Iteration exponent validated here.
   if (iterationExponent < 0 || iterationExponent > MAX_ITERATION_EXP) {
-    throw Error(
+    throw new InvalidIterationExponentError(
       `Invalid iteration exponent (${String(iterationExponent)}). Expected between 0 and ${String(MAX_ITERATION_EXP)}`,
+      { expected: MAX_ITERATION_EXP, actual: iterationExponent },
     );
   }
 
@@ -96,61 +144,63 @@ export async function crypt(
   let range = generateArray([], ROUND_COUNT);
   range = encrypt ? range : range.reverse();
 
-  for (const round of range) {
-    const f = await roundFunction(round, pwd, iterationExponent, salt, IR);
+  // A PBKDF2 round cannot be interrupted, so cancellation is checked before
+  // every round.
+  for (const [i, round] of range.entries()) {
+    throwIfCancelled(signal);
+    const f = await roundFunction(
+      round,
+      pwd,
+      iterationExponent,
+      salt,
+      IR,
+      cryptoProvider,
+    );
     const t = xor(IL, f);
     IL = IR;
     IR = t;
+    if (typeof onProgress !== "undefined") {
+      onProgress(i + 1, ROUND_COUNT);
+    }
   }
+  throwIfCancelled(signal);
   return IR.concat(IL);
 }
 
 export async function createDigest(
   randomData: number[],
   sharedSecret: number[],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
 ): Promise<number[]> {
-  return subtle
-    .importKey(
-      "raw",
-      new Uint8Array(randomData),
-      {
-        name: "HMAC",
-        hash: { name: "SHA-256" },
-      },
-      false,
-      ["sign"],
-    )
-    .then(async (key) => {
-      let signature = await subtle.sign(
-        "HMAC",
-        key,
-        new Uint8Array(sharedSecret),
-      );
-      signature = signature.slice(0, 4);
-      return Array.prototype.slice.call(new Uint8Array(signature), 0);
-    });
+  const signature = await cryptoProvider.hmacSha256(randomData, sharedSecret);
+  return signature.slice(0, DIGEST_LENGTH);
 }
 
 export async function splitSecret(
   threshold: number,
   shareCount: number,
   sharedSecret: number[],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+  entropySource: IEntropySource = cryptoProvider,
 ): Promise<number[][]> {
   if (threshold <= 0) {
-    throw Error(
+    throw new InvalidParameterError(
       `The requested threshold (${String(threshold)}) must be a positive integer.`,
+      { actual: threshold },
     );
   }
 
   if (threshold > shareCount) {
-    throw Error(
+    throw new InvalidParameterError(
       `The requested threshold (${String(threshold)}) must not exceed the number of shares (${String(shareCount)}).`,
+      { expected: shareCount, actual: threshold },
     );
   }
 
   if (shareCount > MAX_SHARE_COUNT) {
-    throw Error(
+    throw new InvalidParameterError(
       `The requested number of shares (${String(shareCount)}) must not exceed ${String(MAX_SHARE_COUNT)}.`,
+      { expected: MAX_SHARE_COUNT, actual: shareCount },
     );
   }
   //  If the threshold is 1, then the digest of the shared secret is not used.
@@ -160,14 +210,16 @@ export async function splitSecret(
 
   const randomShareCount = threshold - 2;
 
-  const randomPart = randomBytes(sharedSecret.length - DIGEST_LENGTH);
-  const digest = await createDigest(randomPart, sharedSecret);
+  const randomPart = entropySource.randomBytes(
+    sharedSecret.length - DIGEST_LENGTH,
+  );
+  const digest = await createDigest(randomPart, sharedSecret, cryptoProvider);
 
   const baseShares = new Map<number, number[]>();
   let shares: number[][] = [];
   if (randomShareCount) {
     shares = generateArray([], randomShareCount, () =>
-      randomBytes(sharedSecret.length),
+      entropySource.randomBytes(sharedSecret.length),
     ) as number[][];
     shares.forEach((item: number[], idx: number) => {
       baseShares.set(idx, item);
@@ -187,10 +239,12 @@ export async function splitSecret(
 //
 // Returns a randomly generated integer in the range 0, ..., 2**ID_BITS_LENGTH - 1.
 //
-export function generateIdentifier(): number[] {
+export function generateIdentifier(
+  entropySource: IEntropySource = webCryptoProvider,
+): number[] {
   const byte = bitsToBytes(ID_BITS_LENGTH);
   const bits = ID_BITS_LENGTH % 8;
-  const identifier = randomBytes(byte);
+  const identifier = entropySource.randomBytes(byte);
 
   identifier[0] = identifier[0] & ((1 << bits) - 1);
 
@@ -199,8 +253,9 @@ export function generateIdentifier(): number[] {
 
 function xor(a: number[], b: number[]): number[] {
   if (a.length !== b.length) {
-    throw new Error(
+    throw new InvalidPaddingError(
       `Invalid padding in mnemonic or insufficient length of mnemonics (${String(a.length)} or ${String(b.length)})`,
+      { expected: a.length, actual: b.length },
     );
   }
   return generateArray([], a.length, (i) => a[i] ^ b[i]);
@@ -215,13 +270,16 @@ function getSalt(identifier: number[], extendableBackupFlag: number): number[] {
   }
 }
 
-function interpolate(shares: Map<number, number[]>, x: number): number[] {
+export function interpolate(
+  shares: Map<number, number[]>,
+  x: number,
+): number[] {
   const xCoord = new Set(shares.keys());
   const arr = Array.from(shares.values(), (v) => v.length);
   const sharesValueLengths = new Set(arr);
 
   if (sharesValueLengths.size !== 1) {
-    throw new Error(
+    throw new InvalidShareSetError(
       "Invalid set of shares. All share values must have the same length.",
     );
   }
@@ -231,7 +289,7 @@ function interpolate(shares: Map<number, number[]>, x: number): number[] {
       if (k === x) {
         return v;
       }
-      throw new Error(
+      throw new InvalidShareSetError(
         "Invalid set of shares. All share values must have the same length.",
       );
     });
@@ -320,16 +378,25 @@ function rs1024CreateChecksum(
   ).reverse();
 }
 
-function rs1024VerifyChecksum(
+export function rs1024VerifyChecksum(
   data: number[],
   extendableBackupFlag: number,
 ): boolean {
-  return (
-    rs1024Polymod(
-      encodeHexString(get_customization_string(extendableBackupFlag)).concat(
-        data,
-      ),
-    ) === 1
+  return rs1024Residue(data, extendableBackupFlag) === 1;
+}
+
+//
+// Returns the residue of the RS1024 checksum of the data, which is 1 for valid
+// data. The residue is affine over GF(2) in the bits of the data.
+//
+export function rs1024Residue(
+  data: number[],
+  extendableBackupFlag: number,
+): number {
+  return rs1024Polymod(
+    encodeHexString(get_customization_string(extendableBackupFlag)).concat(
+      data,
+    ),
   );
 }
 
@@ -366,18 +433,22 @@ export function mnemonicFromIndices(indices: number[]): string {
 
 export function mnemonicToIndices(mnemonic: string): number[] {
   const words = mnemonic.toLowerCase().split(" ");
-  return words.reduce((prev: number[], item) => {
-    const index = WORD_LIST_MAP[item];
-    if (typeof index === "undefined") {
-      throw new Error(`Invalid mnemonic word ${item}.`);
+  return words.reduce((prev: number[], item, wordPosition) => {
+    try {
+      return prev.concat(resolveWord(item));
+    } catch (e) {
+      if (e instanceof Slip39Error) {
+        e.context.wordPosition = wordPosition;
+      }
+      throw e;
     }
-    return prev.concat(index);
   }, []);
 }
 
 export async function recoverSecret(
   threshold: number,
   shares: Map<number, number[]>,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
 ): Promise<number[]> {
   // If the threshold is 1, then the digest of the shared secret is not used.
   if (threshold === 1) {
@@ -389,81 +460,513 @@ export async function recoverSecret(
   const digest = digestShare.slice(0, DIGEST_LENGTH);
   const randomPart = digestShare.slice(DIGEST_LENGTH);
 
-  const recoveredDigest = await createDigest(randomPart, sharedSecret);
+  const recoveredDigest = await createDigest(
+    randomPart,
+    sharedSecret,
+    cryptoProvider,
+  );
   if (!listsAreEqual(digest, recoveredDigest)) {
-    throw new Error("Invalid digest of the shared secret.");
+    throw new DigestMismatchError("Invalid digest of the shared secret.");
   }
   return sharedSecret;
 }
 
 //
 // Combines mnemonic shares to get the master secret, which was previously
-// split using Shamir's secret sharing scheme.
+// split using Shamir's secret sharing scheme. Surplus mnemonics, i.e. more
+// members or groups than the thresholds, are accepted as long as they are
+// consistent with the others.
 //
 export async function combineMnemonics(
   mnemonics: string[],
   passphrase = "",
+  options: ICryptOptions = {},
 ): Promise<number[]> {
-  if (mnemonics.length === 0) {
-    throw new Error("The list of mnemonics is empty.");
+  throwIfEmpty(mnemonics);
+
+  const decoded = decodeMnemonics(mnemonics);
+  const ems = await recoverEncryptedMasterSecret(
+    decoded,
+    options.cryptoProvider,
+  );
+  return decryptMasterSecret(ems, passphrase, decoded, options);
+}
+
+//
+// Combines mnemonic shares like `combineMnemonics`, but instead of failing on
+// surplus shares which are inconsistent with the others, it reports for each
+// mnemonic whether it was used, agrees or disagrees with the recovered secret,
+// or could not be checked as its group is incomplete.
+//
+export async function combineMnemonicsWithReport(
+  mnemonics: string[],
+  passphrase = "",
+  options: ICryptOptions = {},
+): Promise<IRecoveryReport> {
+  throwIfEmpty(mnemonics);
+
+  const decoded = decodeMnemonics(mnemonics);
+  const check = await checkGroupShares(decoded, options.cryptoProvider);
+  const ems = await recoverSecret(
+    decoded.groupThreshold,
+    check.groupShares,
+    options.cryptoProvider,
+  );
+  const secret = await decryptMasterSecret(ems, passphrase, decoded, options);
+
+  const shares = mnemonics.map((mnemonic, mnemonicIndex) => {
+    const share = decodeMnemonic(mnemonic);
+    return {
+      mnemonicIndex: mnemonicIndex,
+      groupIndex: share.groupIndex,
+      memberIndex: share.memberIndex,
+      status: check.statuses.get(share.groupIndex).get(share.memberIndex),
+    };
+  });
+
+  return {
+    secret: secret,
+    shares: shares,
+    isConsistent: shares.every((item) => item.status !== "disagrees"),
+  };
+}
+
+function decryptMasterSecret(
+  ems: number[],
+  passphrase: string,
+  decoded: IDecodedMnemonics,
+  options: ICryptOptions,
+): Promise<number[]> {
+  const id = intToIndices(
+    BigInt(decoded.identifier),
+    ITERATION_EXP_WORDS_LENGTH,
+    8,
+  );
+
+  return crypt(
+    ems,
+    passphrase,
+    decoded.iterationExponent,
+    id,
+    decoded.extendableBackupFlag,
+    false,
+    options,
+  );
+}
+
+//
+// Recovers the encrypted master secret from the decoded mnemonics without
+// decrypting it.
+//
+export async function recoverEncryptedMasterSecret(
+  decoded: IDecodedMnemonics,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<number[]> {
+  const allShares = await recoverGroupShares(decoded, cryptoProvider);
+  return recoverSecret(decoded.groupThreshold, allShares, cryptoProvider);
+}
+
+//
+// Recovers the group shares, i.e. the points of the group level polynomial,
+// of exactly group threshold groups from the decoded mnemonics. Fails if any
+// of the surplus mnemonics is inconsistent with them.
+//
+async function recoverGroupShares(
+  decoded: IDecodedMnemonics,
+  cryptoProvider: ICryptoProvider,
+): Promise<Map<number, number[]>> {
+  const check = await checkGroupShares(decoded, cryptoProvider);
+
+  for (const [groupIndex, statuses] of check.statuses.entries()) {
+    for (const [memberIndex, status] of statuses.entries()) {
+      if (status === "disagrees") {
+        throw new InvalidShareSetError(
+          `Invalid set of mnemonics. The share of member ${String(memberIndex + 1)} of group ${String(groupIndex + 1)} is inconsistent with the other shares.`,
+          { groupIndex: groupIndex, memberIndex: memberIndex },
+        );
+      }
+    }
+  }
+
+  return check.groupShares;
+}
+
+//
+// Returns the index combinations of `size` out of `count` items in
+// lexicographic order.
+//
+function combinations(count: number, size: number): number[][] {
+  const result: number[][] = [];
+  const combination: number[] = [];
+
+  const next = (start: number): void => {
+    if (combination.length === size) {
+      result.push(combination.slice());
+      return;
+    }
+    for (let i = start; i <= count - (size - combination.length); i++) {
+      combination.push(i);
+      next(i + 1);
+      combination.pop();
+    }
+  };
+
+  next(0);
+  return result;
+}
+
+//
+// Searches the threshold sized subsets of the points for the one that passes
+// the digest check and agrees with the most of the other points.
+//
+export async function findConsistentPoints(
+  threshold: number,
+  points: ISharePoint[],
+  cryptoProvider: ICryptoProvider,
+): Promise<IConsistentPoints> {
+  let best: IConsistentPoints;
+  let bestCount = 0;
+
+  for (const combination of combinations(points.length, threshold)) {
+    const subset = new Map<number, number[]>();
+    combination.forEach((i) => subset.set(points[i].x, points[i].value));
+    // Conflicting shares of the same member cannot be combined.
+    if (subset.size < threshold) {
+      continue;
+    }
+
+    let secret: number[];
+    try {
+      secret = await recoverSecret(threshold, subset, cryptoProvider);
+    } catch (e) {
+      if (e instanceof DigestMismatchError) {
+        continue;
+      }
+      throw e;
+    }
+
+    const agreeing = points.map((point) => {
+      const expected = subset.has(point.x)
+        ? subset.get(point.x)
+        : interpolate(subset, point.x);
+      return listsAreEqual(expected, point.value);
+    });
+
+    const count = agreeing.filter((item) => item).length;
+    if (count > bestCount) {
+      best = { secret: secret, subset: combination, agreeing: agreeing };
+      bestCount = count;
+    }
+    if (count === points.length) {
+      break;
+    }
   }
 
+  return best;
+}
+
+//
+// Recovers the group shares of group threshold groups, each from member
+// threshold members, and checks the surplus members and groups against the
+// polynomials they define. As a polynomial is uniquely defined by any
+// threshold number of its points, every other qualifying subset of consistent
+// shares reconstructs the same secret. The subsets are chosen by
+// `findConsistentPoints`, so that a corrupted share does not spoil the result
+// regardless of its position among the mnemonics.
+//
+async function checkGroupShares(
+  decoded: IDecodedMnemonics,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<IGroupShareCheck> {
+  const groupThreshold = decoded.groupThreshold;
+  const groups = decoded.groups;
+
+  if (groups.size < groupThreshold) {
+    throw new InsufficientGroupsError(
+      `Insufficient number of mnemonic groups (${String(groups.size)}). The required number of groups is ${String(groupThreshold)}.`,
+      { expected: groupThreshold, actual: groups.size },
+    );
+  }
+
+  const statuses = new Map<number, Map<number, IShareAgreement["status"]>>();
+  const groupPoints: ISharePoint[] = [];
+  let incompleteGroup: number;
+  let digestError: DigestMismatchError;
+
+  for (const [groupIndex, members] of groups.entries()) {
+    const threshold: number = members.keys().next().value;
+    const shares: Map<number, number[]> = members.values().next().value;
+    const memberIndices = Array.from(shares.keys());
+    const status = new Map<number, IShareAgreement["status"]>();
+    statuses.set(groupIndex, status);
+
+    if (shares.size < threshold) {
+      memberIndices.forEach((idx) => status.set(idx, "unused"));
+      if (typeof incompleteGroup === "undefined") {
+        incompleteGroup = groupIndex;
+      }
+      continue;
+    }
+
+    const points = memberIndices.map((idx) => {
+      return { x: idx, value: shares.get(idx) };
+    });
+    const found = await findConsistentPoints(threshold, points, cryptoProvider);
+    if (typeof found === "undefined") {
+      memberIndices.forEach((idx) => status.set(idx, "disagrees"));
+      if (typeof digestError === "undefined") {
+        digestError = new DigestMismatchError(
+          "Invalid digest of the shared secret.",
+          { groupIndex: groupIndex },
+        );
+      }
+      continue;
+    }
+
+    memberIndices.forEach((idx, i) => {
+      if (found.subset.includes(i)) {
+        status.set(idx, "used");
+      } else {
+        status.set(idx, found.agreeing[i] ? "agrees" : "disagrees");
+      }
+    });
+    groupPoints.push({ x: groupIndex, value: found.secret });
+  }
+
+  if (groupPoints.length < groupThreshold) {
+    if (typeof digestError !== "undefined") {
+      throw digestError;
+    }
+
+    const identifier = decoded.identifier;
+    const members = groups.get(incompleteGroup);
+    const threshold: number = members.keys().next().value;
+    const shares: Map<number, number[]> = members.values().next().value;
+    const prefix = groupPrefix(
+      identifier,
+      decoded.extendableBackupFlag,
+      decoded.iterationExponent,
+      incompleteGroup,
+      groupThreshold,
+      decoded.groupCount,
+    );
+    throw new InsufficientMembersError(
+      `Wrong number of mnemonics. Expected ${String(threshold)} mnemonics starting with "${mnemonicFromIndices(prefix)}", \n but ${String(shares.size)} were provided.`,
+      {
+        groupIndex: incompleteGroup,
+        expected: threshold,
+        actual: shares.size,
+      },
+    );
+  }
+
+  const found = await findConsistentPoints(
+    groupThreshold,
+    groupPoints,
+    cryptoProvider,
+  );
+  if (typeof found === "undefined") {
+    throw new DigestMismatchError("Invalid digest of the shared secret.");
+  }
+
+  const groupShares = new Map<number, number[]>();
+  groupPoints.forEach((point, i) => {
+    if (found.subset.includes(i)) {
+      groupShares.set(point.x, point.value);
+      return;
+    }
+
+    // The members of the surplus groups only serve as a cross-check.
+    const status = statuses.get(point.x);
+    status.forEach((value, idx) => {
+      if (!found.agreeing[i]) {
+        status.set(idx, "disagrees");
+      } else if (value === "used") {
+        status.set(idx, "agrees");
+      }
+    });
+  });
+
+  return { groupShares: groupShares, statuses: statuses };
+}
+
+//
+// Generates the group shares of `count` new groups of an extendable backup
+// from the decoded mnemonics of a quorum of groups. The group level polynomial
+// is evaluated at unused group indices, i.e. from the group count upwards, as
+// the group count encoded in the existing mnemonics cannot change.
+//
+export async function extendGroupShares(
+  decoded: IDecodedMnemonics,
+  count: number,
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<Map<number, number[]>> {
+  if (!decoded.extendableBackupFlag) {
+    throw new NotExtendableError(
+      "Only extendable backups can be extended with new groups. The extendable backup flag of the mnemonics is not set.",
+    );
+  }
+
+  // The group shares have passed the digest check of the shared secret.
+  const allShares = await recoverGroupShares(decoded, cryptoProvider);
+
+  const indices = generateArray([], MAX_SHARE_COUNT).filter(
+    (idx: number) => idx >= decoded.groupCount && !decoded.groups.has(idx),
+  ) as number[];
+
+  if (count > indices.length) {
+    throw new InvalidParameterError(
+      `The requested number of new groups (${String(count)}) exceeds the number of unused group indices (${String(indices.length)}). The number of groups must not exceed ${String(MAX_SHARE_COUNT)}.`,
+      { expected: indices.length, actual: count },
+    );
+  }
+
+  const newShares = new Map<number, number[]>();
+  indices.slice(0, count).forEach((idx) => {
+    newShares.set(idx, interpolate(allShares, idx));
+  });
+  return newShares;
+}
+
+//
+// Generates new member mnemonics for a single group from at least member
+// threshold mnemonics of that group. The group's polynomial is interpolated
+// from the given shares and evaluated at the new member indices, so the new
+// mnemonics combine with the existing ones.
+//
+// The original member count is not encoded in the mnemonics, therefore when no
+// member indices are requested the unused indices are taken from the top of
+// the range (15, 14, ...), as the ones created by `Slip39.fromArray()` start
+// from 0.
+//
+export async function extendGroupMembers(
+  mnemonics: string[],
+  count = 1,
+  memberIndices: number[] = [],
+  cryptoProvider: ICryptoProvider = webCryptoProvider,
+): Promise<string[]> {
+  throwIfEmpty(mnemonics);
+
   const decoded = decodeMnemonics(mnemonics);
   const identifier = decoded.identifier;
   const extendableBackupFlag = decoded.extendableBackupFlag;
   const iterationExponent = decoded.iterationExponent;
   const groupThreshold = decoded.groupThreshold;
   const groupCount = decoded.groupCount;
-  const groups = decoded.groups;
 
-  if (groups.size < groupThreshold) {
-    throw new Error(
-      `Insufficient number of mnemonic groups (${String(groups.size)}). The required number of groups is ${String(groupThreshold)}.`,
+  if (decoded.groups.size !== 1) {
+    throw new InvalidShareSetError(
+      `Invalid set of mnemonics. All mnemonics must belong to the same group, but ${String(decoded.groups.size)} groups were provided.`,
+      { expected: 1, actual: decoded.groups.size },
     );
   }
 
-  if (groups.size !== groupThreshold) {
-    throw new Error(
-      `Wrong number of mnemonic groups. Expected ${String(groupThreshold)} groups, but ${String(groups.size)} were provided.`,
+  const [groupIndex, members] = decoded.groups.entries().next().value;
+  const threshold = members.keys().next().value;
+  const shares = members.values().next().value;
+
+  if (threshold === 1) {
+    throw new InvalidParameterError(
+      "Creating multiple member shares with member threshold 1 is not allowed.",
+      { groupIndex: groupIndex },
     );
   }
 
-  const allShares = new Map<number, number[]>();
-  for (const [groupIndex, members] of groups.entries()) {
-    const threshold = members.keys().next().value;
-    const shares = members.values().next().value;
-    if (shares.size !== threshold) {
-      const prefix = groupPrefix(
-        identifier,
-        extendableBackupFlag,
-        iterationExponent,
-        groupIndex,
-        groupThreshold,
-        groupCount,
+  if (shares.size < threshold) {
+    const prefix = groupPrefix(
+      identifier,
+      extendableBackupFlag,
+      iterationExponent,
+      groupIndex,
+      groupThreshold,
+      groupCount,
+    );
+    throw new InsufficientMembersError(
+      `Insufficient number of mnemonics. Expected at least ${String(threshold)} mnemonics starting with "${mnemonicFromIndices(prefix)}", \n but ${String(shares.size)} were provided.`,
+      { groupIndex: groupIndex, expected: threshold, actual: shares.size },
+    );
+  }
+
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InvalidParameterError(
+      `Invalid number of new members (${String(count)}). Expected a positive integer.`,
+      { groupIndex: groupIndex, actual: count },
+    );
+  }
+
+  let indices = memberIndices;
+  if (indices.length === 0) {
+    indices = generateArray([], MAX_SHARE_COUNT)
+      .reverse()
+      .filter((idx: number) => !shares.has(idx))
+      .slice(0, count) as number[];
+
+    if (indices.length < count) {
+      throw new InvalidParameterError(
+        `The requested number of new members (${String(count)}) exceeds the number of unused member indices (${String(indices.length)}).`,
+        { groupIndex: groupIndex, expected: indices.length, actual: count },
       );
-      throw new Error(
-        `Wrong number of mnemonics. Expected ${String(threshold)} mnemonics starting with "${mnemonicFromIndices(prefix)}", \n but ${String(shares.size)} were provided.`,
+    }
+  }
+
+  indices.forEach((idx, i) => {
+    if (!Number.isInteger(idx) || idx < 0 || idx >= MAX_SHARE_COUNT) {
+      throw new InvalidParameterError(
+        `Invalid member index (${String(idx)}). Expected between 0 and ${String(MAX_SHARE_COUNT - 1)}.`,
+        { groupIndex: groupIndex, memberIndex: idx },
       );
     }
+    if (shares.has(idx) || indices.indexOf(idx) !== i) {
+      throw new InvalidParameterError(
+        `The member index (${String(idx)}) is already in use.`,
+        { groupIndex: groupIndex, memberIndex: idx },
+      );
+    }
+  });
 
-    const recovered = await recoverSecret(threshold, shares);
-    allShares.set(groupIndex, recovered);
+  // Exactly threshold points define the polynomial, the rest must lie on it.
+  // The defining subset is searched for, so that the result does not depend on
+  // the order of the mnemonics.
+  const points = Array.from(shares.entries()).map(([x, value]) => {
+    return { x: x, value: value };
+  });
+  const found = await findConsistentPoints(threshold, points, cryptoProvider);
+  if (typeof found === "undefined") {
+    throw new DigestMismatchError("Invalid digest of the shared secret.", {
+      groupIndex: groupIndex,
+    });
   }
 
-  const ems = await recoverSecret(groupThreshold, allShares);
-  const id = intToIndices(BigInt(identifier), ITERATION_EXP_WORDS_LENGTH, 8);
+  points.forEach((point, i) => {
+    if (!found.agreeing[i]) {
+      throw new InvalidShareSetError(
+        `Invalid set of mnemonics. The share of member ${String(point.x + 1)} is inconsistent with the other shares of the group.`,
+        { groupIndex: groupIndex, memberIndex: point.x },
+      );
+    }
+  });
 
-  return crypt(
-    ems,
-    passphrase,
-    iterationExponent,
-    id,
-    extendableBackupFlag,
-    false,
+  const baseShares = new Map<number, number[]>();
+  found.subset.forEach((i) => baseShares.set(points[i].x, points[i].value));
+
+  const id = intToIndices(BigInt(identifier), bitsToBytes(ID_BITS_LENGTH), 8);
+
+  return indices.map((idx) =>
+    encodeMnemonic(
+      id,
+      extendableBackupFlag,
+      iterationExponent,
+      groupIndex,
+      groupThreshold,
+      groupCount,
+      idx,
+      threshold,
+      interpolate(baseShares, idx),
+    ),
   );
 }
 
-function decodeMnemonics(mnemonics: string[]): IDecodedMnemonics {
+export function decodeMnemonics(mnemonics: string[]): IDecodedMnemonics {
   const identifiers = new Set<number>();
   const extendableBackupFlags = new Set<number>();
   const iterationExponents = new Set<number>();
@@ -471,8 +974,16 @@ function decodeMnemonics(mnemonics: string[]): IDecodedMnemonics {
   const groupCounts = new Set<number>();
   const groups = new Map<number, Map<number, Map<number, number[]>>>();
 
-  mnemonics.forEach((mnemonic) => {
-    const decoded = decodeMnemonic(mnemonic);
+  mnemonics.forEach((mnemonic, mnemonicIndex) => {
+    let decoded: IDecodedMnemonic;
+    try {
+      decoded = decodeMnemonic(mnemonic);
+    } catch (e) {
+      if (e instanceof Slip39Error) {
+        e.context.mnemonicIndex = mnemonicIndex;
+      }
+      throw e;
+    }
 
     identifiers.add(decoded.identifier);
     extendableBackupFlags.add(decoded.extendableBackupFlag);
@@ -488,20 +999,32 @@ function decodeMnemonics(mnemonics: string[]): IDecodedMnemonics {
       ? new Map<number, Map<number, number[]>>()
       : groups.get(groupIndex);
     if (!group) {
-      throw new Error("Unable to initialize group map");
+      throw new InvalidShareSetError("Unable to initialize group map");
     }
 
     const member = !group.has(memberThreshold)
       ? new Map<number, number[]>()
       : group.get(memberThreshold);
     if (!member) {
-      throw new Error("Unable to initalize member map");
+      throw new InvalidShareSetError("Unable to initalize member map");
+    }
+    const entered = member.get(memberIndex);
+    if (typeof entered !== "undefined" && !listsAreEqual(entered, share)) {
+      throw new InvalidShareSetError(
+        `Invalid set of mnemonics. The mnemonics of member ${String(memberIndex + 1)} of group ${String(groupIndex + 1)} have different share values.`,
+        {
+          mnemonicIndex: mnemonicIndex,
+          groupIndex: groupIndex,
+          memberIndex: memberIndex,
+        },
+      );
     }
     member.set(memberIndex, share);
     group.set(memberThreshold, member);
     if (group.size !== 1) {
-      throw new Error(
+      throw new InvalidShareSetError(
         "Invalid set of mnemonics. All mnemonics in a group must have the same member threshold.",
+        { mnemonicIndex: mnemonicIndex, groupIndex: groupIndex },
       );
     }
     groups.set(groupIndex, group);
@@ -512,19 +1035,19 @@ function decodeMnemonics(mnemonics: string[]): IDecodedMnemonics {
     extendableBackupFlags.size !== 1 ||
     iterationExponents.size !== 1
   ) {
-    throw new Error(
+    throw new MismatchedIdentifierError(
       `Invalid set of mnemonics. All mnemonics must begin with the same ${String(ITERATION_EXP_WORDS_LENGTH)} words.`,
     );
   }
 
   if (groupThresholds.size !== 1) {
-    throw new Error(
+    throw new InvalidShareSetError(
       "Invalid set of mnemonics. All mnemonics must have the same group threshold.",
     );
   }
 
   if (groupCounts.size !== 1) {
-    throw new Error(
+    throw new InvalidShareSetError(
       "Invalid set of mnemonics. All mnemonics must have the same group count.",
     );
   }
@@ -542,18 +1065,21 @@ function decodeMnemonics(mnemonics: string[]): IDecodedMnemonics {
 //
 // Converts a share mnemonic to share data.
 //
-function decodeMnemonic(mnemonic: string): IDecodedMnemonic {
+export function decodeMnemonic(mnemonic: string): IDecodedMnemonic {
   const data = mnemonicToIndices(mnemonic);
 
   if (data.length < MNEMONICS_WORDS_LENGTH) {
-    throw new Error(
+    throw new InvalidMnemonicError(
       `Invalid mnemonic length. The length of each mnemonic must be at least ${String(MNEMONICS_WORDS_LENGTH)} words.`,
+      { expected: MNEMONICS_WORDS_LENGTH, actual: data.length },
     );
   }
 
   const paddingLen = (RADIX_BITS * (data.length - METADATA_WORDS_LENGTH)) % 16;
   if (paddingLen > 8) {
-    throw new Error("Invalid mnemonic length.");
+    throw new InvalidMnemonicError("Invalid mnemonic length.", {
+      actual: data.length,
+    });
   }
 
   const idExpExtInt = Number(
@@ -569,7 +1095,7 @@ function decodeMnemonic(mnemonic: string): IDecodedMnemonic {
     idExpExtInt & ((1 << ITERATION_EXP_BITS_LENGTH) - 1);
 
   if (!rs1024VerifyChecksum(data, extendableBackupFlag)) {
-    throw new Error("Invalid mnemonic checksum");
+    throw new InvalidChecksumError("Invalid mnemonic checksum");
   }
 
   const tmp = intFromIndices(
@@ -590,8 +1116,9 @@ function decodeMnemonic(mnemonic: string): IDecodedMnemonic {
   );
 
   if (groupCount < groupThreshold) {
-    throw new Error(
+    throw new InvalidMnemonicError(
       `Invalid mnemonic: ${mnemonic}.\n Group threshold (${String(groupThreshold)}) cannot be greater than group count (${String(groupCount)}).`,
+      { expected: groupCount + 1, actual: groupThreshold + 1 },
     );
   }
 
@@ -615,7 +1142,7 @@ function decodeMnemonic(mnemonic: string): IDecodedMnemonic {
       share: share,
     };
   } catch (e) {
-    throw new Error(`Invalid mnemonic padding (${String(e)})`);
+    throw new InvalidPaddingError(`Invalid mnemonic padding (${String(e)})`);
   }
 }
 
@@ -628,7 +1155,7 @@ export function validateMnemonic(mnemonic: string): boolean {
   }
 }
 
-function groupPrefix(
+export function groupPrefix(
   identifier: number,
   extendableBackupFlag: number,
   iterationExponent: number,
@@ -1,6 +1,7 @@
-import { getRandomValues } from "uncrypto";
-
 import { RADIX_BITS } from "./constants";
+import { webCryptoProvider } from "./crypto_provider";
+import { InvalidParameterError } from "./errors";
+import { IEntropySource } from "./interfaces";
 
 const BIGINT_WORD_BITS = BigInt(8);
 
@@ -41,10 +42,11 @@ export function bitsToWords(n: number): number {
   return Math.floor((n + RADIX_BITS - 1) / RADIX_BITS);
 }
 
-export function randomBytes(length = 32): number[] {
-  const randoms = new Uint8Array(length);
-  getRandomValues(randoms);
-  return Array.from(randoms);
+export function randomBytes(
+  length = 32,
+  entropySource: IEntropySource = webCryptoProvider,
+): number[] {
+  return entropySource.randomBytes(length);
 }
 
 export function listsAreEqual(
@@ -86,7 +88,7 @@ export function encodeBigInt(number: bigint, paddedLength = 0): number[] {
   }
 
   if (paddedLength !== 0 && result.length > paddedLength) {
-    throw new Error(
+    throw new InvalidParameterError(
       `Error in encoding BigInt value, expected less than ${String(paddedLength)} length value, got ${String(result.length)}`,
     );
   }
@@ -0,0 +1,137 @@
+//
+// Affine arithmetic on short Weierstrass curves y^2 = x^3 + ax + b over a
+// prime field, as needed to compute the public keys of BIP32 and SLIP-0010.
+// It is not constant time, so it is not meant for signing.
+//
+import { encodeBigInt } from "./utils";
+
+export interface IWeierstrassCurve {
+  p: bigint;
+  a: bigint;
+  b: bigint;
+  n: bigint;
+  gx: bigint;
+  gy: bigint;
+}
+
+export interface IPoint {
+  x: bigint;
+  y: bigint;
+}
+
+export const SECP256K1: IWeierstrassCurve = {
+  p: BigInt(
+    "0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f",
+  ),
+  a: BigInt(0),
+  b: BigInt(7),
+  n: BigInt(
+    "0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141",
+  ),
+  gx: BigInt(
+    "0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798",
+  ),
+  gy: BigInt(
+    "0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8",
+  ),
+};
+
+export const NIST256P1: IWeierstrassCurve = {
+  p: BigInt(
+    "0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff",
+  ),
+  a: BigInt(
+    "0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc",
+  ),
+  b: BigInt(
+    "0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b",
+  ),
+  n: BigInt(
+    "0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551",
+  ),
+  gx: BigInt(
+    "0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296",
+  ),
+  gy: BigInt(
+    "0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5",
+  ),
+};
+
+export function mod(a: bigint, m: bigint): bigint {
+  const r = a % m;
+  return r < BigInt(0) ? r + m : r;
+}
+
+export function modInverse(a: bigint, m: bigint): bigint {
+  let [oldR, r] = [mod(a, m), m];
+  let [oldS, s] = [BigInt(1), BigInt(0)];
+  while (r !== BigInt(0)) {
+    const q = oldR / r;
+    [oldR, r] = [r, oldR - q * r];
+    [oldS, s] = [s, oldS - q * s];
+  }
+  return mod(oldS, m);
+}
+
+// The point at infinity is represented by null.
+function pointAdd(
+  curve: IWeierstrassCurve,
+  p1: IPoint | null,
+  p2: IPoint | null,
+): IPoint | null {
+  if (p1 === null) {
+    return p2;
+  }
+  if (p2 === null) {
+    return p1;
+  }
+
+  let lambda: bigint;
+  if (p1.x === p2.x) {
+    if (mod(p1.y + p2.y, curve.p) === BigInt(0)) {
+      return null;
+    }
+    lambda = mod(
+      (BigInt(3) * p1.x * p1.x + curve.a) *
+        modInverse(BigInt(2) * p1.y, curve.p),
+      curve.p,
+    );
+  } else {
+    lambda = mod((p2.y - p1.y) * modInverse(p2.x - p1.x, curve.p), curve.p);
+  }
+
+  const x = mod(lambda * lambda - p1.x - p2.x, curve.p);
+  const y = mod(lambda * (p1.x - x) - p1.y, curve.p);
+  return { x: x, y: y };
+}
+
+//
+// Multiplies the generator of the curve by the scalar, i.e. computes the
+// public key of a private key.
+//
+export function multiplyGenerator(
+  curve: IWeierstrassCurve,
+  scalar: bigint,
+): IPoint {
+  let result: IPoint | null = null;
+  let addend: IPoint | null = { x: curve.gx, y: curve.gy };
+  let k = mod(scalar, curve.n);
+
+  while (k > BigInt(0)) {
+    if (k & BigInt(1)) {
+      result = pointAdd(curve, result, addend);
+    }
+    addend = pointAdd(curve, addend, addend);
+    k >>= BigInt(1);
+  }
+  return result;
+}
+
+//
+// Serializes the point in the 33 byte compressed form, i.e. the parity of y
+// followed by x.
+//
+export function compressPoint(point: IPoint): number[] {
+  const prefix = point.y & BigInt(1) ? 0x03 : 0x02;
+  return [prefix].concat(encodeBigInt(point.x, 32));
+}
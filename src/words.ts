@@ -0,0 +1,50 @@
+import { UNIQUE_PREFIX_LENGTH, WORD_LIST, WORD_LIST_MAP } from "./constants";
+import { AmbiguousWordError, InvalidWordError } from "./errors";
+
+//
+// Returns the words of the wordlist starting with the prefix, e.g. for
+// autocompletion. The words are uniquely identified by their first four
+// letters, so any longer prefix matches at most one word.
+//
+export function completeWord(prefix: string): string[] {
+  const lowerPrefix = prefix.toLowerCase();
+  if (lowerPrefix.length === 0) {
+    return [];
+  }
+  return WORD_LIST.filter((word) => word.startsWith(lowerPrefix));
+}
+
+//
+// Returns the index of the word in the wordlist. Abbreviated words, e.g. the
+// first four letters stamped on a metal plate, are resolved to the only word
+// they are the prefix of. Shorter abbreviations are rejected, as a single
+// mistyped letter could silently resolve them to another word.
+//
+export function resolveWord(word: string): number {
+  const lowerWord = word.toLowerCase();
+  if (Object.hasOwn(WORD_LIST_MAP, lowerWord)) {
+    return WORD_LIST_MAP[lowerWord];
+  }
+
+  const candidates = completeWord(word);
+  if (candidates.length > 1) {
+    throw new AmbiguousWordError(
+      `Ambiguous mnemonic word ${word}. It is the prefix of ${candidates.join(", ")}.`,
+      { word: word },
+    );
+  }
+
+  if (candidates.length === 0) {
+    throw new InvalidWordError(`Invalid mnemonic word ${word}.`, {
+      word: word,
+    });
+  }
+
+  if (word.length < UNIQUE_PREFIX_LENGTH) {
+    throw new InvalidWordError(
+      `Invalid mnemonic word ${word}. Abbreviated words must have at least ${String(UNIQUE_PREFIX_LENGTH)} letters.`,
+      { word: word },
+    );
+  }
+  return WORD_LIST_MAP[candidates[0]];
+}
@@ -1,5 +1,42 @@
-import { Slip39 } from "../src";
+import {
+  CancelledError,
+  InvalidEncodingError,
+  InvalidPathError,
+  InvalidWordError,
+  Slip39,
+  Slip39Error,
+  Slip39RecoverySession,
+  analyzeShares,
+  bip39EntropyToMnemonic,
+  bip39MnemonicToEntropy,
+  bip39MnemonicToSeed,
+  completeWord,
+  createNodeCryptoProvider,
+  decodeBase58,
+  decodeBase64,
+  decodeHex,
+  deriveBip32Path,
+  deriveBip32Root,
+  deriveCardanoRootKey,
+  deriveSlip10Path,
+  deriveSlip10Root,
+  encodeBase58,
+  encodeBase64,
+  encodeBech32,
+  encodeHex,
+  extractMnemonics,
+  findFaultyShares,
+  generateMasterSecret,
+  inspectShare,
+  parseBip32Path,
+  recoverErasures,
+  resolveWord,
+  suggestCorrections,
+  validateBip39Mnemonic,
+  webCryptoProvider,
+} from "../src";
 import { decodeHexString, encodeHexString } from "../src";
+import * as nodeCrypto from "crypto";
 // @ts-ignore
 import { getCombinations, shuffle } from "./test_utils";
 
@@ -243,6 +280,13 @@ describe("Invalid Shares", () => {
       MASTERSECRET_HEX.slice(0, 14),
       "The length of the master secret (14 bytes) must be at least 16 bytes.",
     ],
+    [
+      "Long master secret",
+      1,
+      [[2, 3]],
+      MASTERSECRET_HEX.concat(MASTERSECRET_HEX, MASTERSECRET_HEX.slice(0, 2)),
+      "The length of the master secret (34 bytes) must be at most 32 bytes.",
+    ],
     [
       "Odd length master secret",
       1,
@@ -441,3 +485,2116 @@ describe("Groups test (T=1, N=1 e.g. [1,1]) - ", () => {
     }
   }
 });
+
+describe("Adding members to a group", () => {
+  let slip: Slip39;
+  let groupMnemonics: string[];
+
+  beforeAll(async () => {
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      groupThreshold: 2,
+      groups: [
+        [3, 5, "Friends"],
+        [2, 3, "Family"],
+      ],
+    });
+    groupMnemonics = slip.fromPath("r/0").mnemonics;
+  });
+
+  it("should create new members that combine with the existing ones", async () => {
+    const newMembers = await Slip39.addMembers(groupMnemonics.slice(0, 3), {
+      count: 2,
+    });
+    expect(newMembers.length).toBe(2);
+
+    const mnemonics = [groupMnemonics[4]]
+      .concat(newMembers)
+      .concat(slip.fromPath("r/1").mnemonics.slice(0, 2));
+    expect(decodeHexString(MASTERSECRET_HEX)).toBe(
+      decodeHexString(await Slip39.recoverSecret(mnemonics, PASSPHRASE)),
+    );
+  });
+
+  it("should recreate a lost member at its original index", async () => {
+    const lost = await Slip39.addMembers(groupMnemonics.slice(1, 4), {
+      memberIndices: [0, 4],
+    });
+    expect(lost).toEqual([groupMnemonics[0], groupMnemonics[4]]);
+  });
+
+  it("should throw when fewer than member threshold mnemonics are given", async () => {
+    await expect(Slip39.addMembers(groupMnemonics.slice(0, 2))).rejects.toThrow(
+      "Insufficient number of mnemonics.",
+    );
+  });
+
+  it("should throw when the requested member index is in use", async () => {
+    await expect(
+      Slip39.addMembers(groupMnemonics.slice(0, 3), { memberIndices: [2] }),
+    ).rejects.toThrow("The member index (2) is already in use.");
+  });
+
+  it("should pinpoint an inconsistent member regardless of its position", async () => {
+    const forged = await Slip39.fromArray(encodeHexString("0123456789ABCDEF"), {
+      passphrase: PASSPHRASE,
+      identifier: slip.identifier,
+      groupThreshold: 2,
+      groups: [
+        [3, 5, "Friends"],
+        [2, 3, "Family"],
+      ],
+    });
+    const foreign = forged.fromPath("r/0/4").mnemonics[0];
+    const genuine = groupMnemonics.slice(0, 3);
+
+    for (const mnemonics of [
+      [foreign].concat(genuine),
+      genuine.concat(foreign),
+    ]) {
+      await expect(Slip39.addMembers(mnemonics)).rejects.toMatchObject({
+        code: "INVALID_SHARE_SET",
+        message:
+          "Invalid set of mnemonics. The share of member 5 is inconsistent with the other shares of the group.",
+        context: { groupIndex: 0, memberIndex: 4 },
+      });
+    }
+  });
+
+  it("should throw when the number of new members is not a positive integer", async () => {
+    for (const count of [-1, 0, 1.5]) {
+      await expect(
+        Slip39.addMembers(groupMnemonics.slice(0, 3), { count: count }),
+      ).rejects.toMatchObject({
+        code: "INVALID_PARAMETER",
+        message: `Invalid number of new members (${String(count)}). Expected a positive integer.`,
+      });
+    }
+  });
+
+  it("should throw when the mnemonics belong to different groups", async () => {
+    await expect(
+      Slip39.addMembers(slip.fromPath("r").mnemonics),
+    ).rejects.toThrow("All mnemonics must belong to the same group");
+  });
+});
+
+describe("Extending an extendable backup with new groups", () => {
+  let slip: Slip39;
+
+  beforeAll(async () => {
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      groupThreshold: 2,
+      groups: [
+        [2, 3, "Group 0"],
+        [1, 1, "Group 1"],
+        [3, 5, "Group 2"],
+      ],
+    });
+  });
+
+  it("should create new groups that combine with the existing ones", async () => {
+    const quorum = slip
+      .fromPath("r/0")
+      .mnemonics.slice(0, 2)
+      .concat(slip.fromPath("r/1").mnemonics);
+    const extended = await Slip39.extendGroups(quorum, [
+      [2, 4, "Group 3"],
+      [1, 1, "Group 4"],
+    ]);
+
+    expect(extended.root.children.map((item) => item.index)).toEqual([3, 4]);
+    expect(extended.fromPath("r/3").description).toBe("Group 3");
+    expect(extended.fromPath("r/3").mnemonics.length).toBe(4);
+
+    const mnemonics = extended
+      .fromPath("r/3")
+      .mnemonics.slice(1, 3)
+      .concat(slip.fromPath("r/2").mnemonics.slice(0, 3));
+    expect(decodeHexString(MASTERSECRET_HEX)).toBe(
+      decodeHexString(await Slip39.recoverSecret(mnemonics, PASSPHRASE)),
+    );
+
+    const newOnly = extended
+      .fromPath("r/3")
+      .mnemonics.slice(0, 2)
+      .concat(extended.fromPath("r/4").mnemonics);
+    expect(decodeHexString(MASTERSECRET_HEX)).toBe(
+      decodeHexString(await Slip39.recoverSecret(newOnly, PASSPHRASE)),
+    );
+  });
+
+  it("should throw when the extendable backup flag is not set", async () => {
+    const nonExtendable = await Slip39.fromArray(MASTERSECRET_HEX, {
+      extendableBackupFlag: 0,
+      groups: [[1, 1]],
+    });
+    await expect(
+      Slip39.extendGroups(nonExtendable.fromPath("r").mnemonics, [[1, 1]]),
+    ).rejects.toThrow(
+      "Only extendable backups can be extended with new groups.",
+    );
+  });
+
+  it("should throw when the number of groups would exceed the maximum", async () => {
+    const quorum = slip
+      .fromPath("r/1")
+      .mnemonics.concat(slip.fromPath("r/0").mnemonics.slice(0, 2));
+    const groups = Array.from(Array(14), () => [1, 1]);
+    await expect(Slip39.extendGroups(quorum, groups)).rejects.toThrow(
+      "The requested number of new groups (14) exceeds the number of unused group indices (13).",
+    );
+  });
+
+  it("should throw when the path index does not exist", () => {
+    expect(() => slip.fromPath("r/5")).toThrow(
+      "The path index (5) does not match any of the children indices (0, 1, 2).",
+    );
+  });
+});
+
+describe("Resharing under a new policy", () => {
+  let slip: Slip39;
+
+  beforeAll(async () => {
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      groupThreshold: 2,
+      iterationExponent: 1,
+      groups: [
+        [2, 3, "Group 0"],
+        [1, 1, "Group 1"],
+        [2, 2, "Group 2"],
+        [1, 1, "Group 3"],
+      ],
+    });
+  });
+
+  it("should create a new share set with a fresh identifier", async () => {
+    const quorum = slip
+      .fromPath("r/0")
+      .mnemonics.slice(1, 3)
+      .concat(slip.fromPath("r/3").mnemonics);
+    const reshared = await Slip39.reshare(quorum, {
+      groups: [
+        [1, 1, "A"],
+        [2, 3, "B"],
+        [2, 3, "C"],
+        [3, 5, "D"],
+        [1, 1, "E"],
+      ],
+      groupThreshold: 3,
+      title: "New policy",
+    });
+
+    expect(reshared.identifier).not.toEqual(slip.identifier);
+    expect(reshared.groupThreshold).toBe(3);
+    expect(reshared.groupCount).toBe(5);
+    expect(reshared.iterationExponent).toBe(1);
+    expect(reshared.fromPath("r").description).toBe("New policy");
+
+    const mnemonics = reshared
+      .fromPath("r/0")
+      .mnemonics.concat(reshared.fromPath("r/2").mnemonics.slice(0, 2))
+      .concat(reshared.fromPath("r/4").mnemonics);
+    expect(decodeHexString(MASTERSECRET_HEX)).toBe(
+      decodeHexString(await Slip39.recoverSecret(mnemonics, PASSPHRASE)),
+    );
+
+    const mixed = reshared
+      .fromPath("r/0")
+      .mnemonics.concat(slip.fromPath("r/3").mnemonics);
+    await expect(Slip39.recoverSecret(mixed, PASSPHRASE)).rejects.toThrow(
+      "All mnemonics must begin with the same 2 words.",
+    );
+  });
+
+  it("should throw when the extendable backup flag is not set", async () => {
+    const nonExtendable = await Slip39.fromArray(MASTERSECRET_HEX, {
+      extendableBackupFlag: 0,
+    });
+    await expect(
+      Slip39.reshare(nonExtendable.fromPath("r").mnemonics, {
+        groups: [[1, 1]],
+        groupThreshold: 1,
+      }),
+    ).rejects.toThrow("Only extendable backups can be reshared.");
+  });
+
+  it("should throw when the group threshold exceeds the number of groups", async () => {
+    await expect(
+      Slip39.reshare(slip.fromPath("r/1").mnemonics, {
+        groups: [[1, 1]],
+        groupThreshold: 2,
+      }),
+    ).rejects.toThrow(
+      "The requested group threshold (2) must not exceed the number of groups (1).",
+    );
+  });
+});
+
+describe("Incremental recovery session", () => {
+  let slip: Slip39;
+
+  beforeAll(async () => {
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      groupThreshold: 2,
+      groups: [
+        [2, 3, "Group 0"],
+        [1, 1, "Group 1"],
+        [3, 5, "Group 2"],
+      ],
+    });
+  });
+
+  it("should report the progress of each group until the secret can be recovered", async () => {
+    const session = new Slip39RecoverySession();
+    expect(session.progress.isComplete).toBeFalsy();
+    expect(session.progress.groups).toEqual([]);
+
+    const group2 = slip.fromPath("r/2").mnemonics;
+    let progress = session.addMnemonic(group2[4]);
+    expect(progress.groupThreshold).toBe(2);
+    expect(progress.groupCount).toBe(3);
+    expect(progress.groups).toEqual([
+      {
+        groupIndex: 2,
+        memberThreshold: 3,
+        membersEntered: 1,
+        isComplete: false,
+      },
+    ]);
+
+    progress = session.addMnemonic(slip.fromPath("r/0").mnemonics[1]);
+    progress = session.addMnemonic(group2[0]);
+    expect(progress.groupsComplete).toBe(0);
+    await expect(session.recover(PASSPHRASE)).rejects.toThrow(
+      "Insufficient number of complete mnemonic groups (0). The required number of groups is 2.",
+    );
+
+    progress = session.addMnemonic(group2[2]);
+    expect(progress.groupsComplete).toBe(1);
+    expect(session.isComplete).toBeFalsy();
+
+    progress = session.addMnemonic(slip.fromPath("r/1").mnemonics[0]);
+    expect(progress.groups.map((item) => item.isComplete)).toEqual([
+      false,
+      true,
+      true,
+    ]);
+    expect(session.isComplete).toBeTruthy();
+    expect(decodeHexString(MASTERSECRET_HEX)).toBe(
+      decodeHexString(await session.recover(PASSPHRASE)),
+    );
+
+    session.reset();
+    expect(session.progress.groups).toEqual([]);
+  });
+
+  it("should reject a mnemonic that has already been entered", () => {
+    const session = new Slip39RecoverySession();
+    const mnemonic = slip.fromPath("r/0/1").mnemonic;
+    session.addMnemonic(mnemonic);
+    expect(() => session.addMnemonic(mnemonic)).toThrow(
+      "The mnemonic of member 2 of group 1 has already been entered.",
+    );
+  });
+
+  it("should reject a mnemonic of a different share set", async () => {
+    const other = await Slip39.fromArray(MASTERSECRET_HEX, {
+      identifier: [0, 1],
+    });
+    const session = new Slip39RecoverySession();
+    session.addMnemonic(slip.fromPath("r/0/0").mnemonic);
+    expect(() => session.addMnemonic(other.fromPath("r/0/0").mnemonic)).toThrow(
+      "Invalid mnemonic. It must begin with the same 2 words as the previously entered mnemonics.",
+    );
+    expect(session.progress.groups.length).toBe(1);
+  });
+
+  it("should reject an invalid mnemonic", () => {
+    const session = new Slip39RecoverySession();
+    expect(() => session.addMnemonic("academic acid")).toThrow(
+      "Invalid mnemonic length.",
+    );
+  });
+});
+
+describe("Typo correction", () => {
+  const mnemonic =
+    "duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard";
+
+  it("should not suggest anything for a valid mnemonic", () => {
+    expect(suggestCorrections(mnemonic)).toEqual([]);
+  });
+
+  it("should fix a misspelled word", () => {
+    const corrections = suggestCorrections(
+      mnemonic.replace("enlarge academic", "enlarge acadamic"),
+    );
+    expect(corrections.length).toBeGreaterThan(0);
+    expect(corrections[0]).toEqual({
+      mnemonic: mnemonic,
+      kind: "substitution",
+      position: 2,
+      original: "acadamic",
+      replacement: "academic",
+      distance: 1,
+    });
+  });
+
+  it("should find a wrong word of the wordlist", () => {
+    const corrections = suggestCorrections(
+      mnemonic.replace("kidney", "kitchen"),
+    );
+    const correction = corrections.find((item) => item.mnemonic === mnemonic);
+    expect(correction).toBeDefined();
+    expect(correction?.position).toBe(9);
+    expect(correction?.replacement).toBe("kidney");
+    corrections.forEach((item) => {
+      expect(Slip39.validateMnemonic(item.mnemonic)).toBeTruthy();
+    });
+  });
+
+  it("should find swapped adjacent words", () => {
+    const corrections = suggestCorrections(
+      mnemonic.replace("coal piece", "piece coal"),
+    );
+    const correction = corrections.find(
+      (item) => item.kind === "transposition",
+    );
+    expect(correction?.mnemonic).toBe(mnemonic);
+    expect(correction?.position).toBe(10);
+  });
+
+  it("should not suggest anything for more than one unknown word", () => {
+    expect(
+      suggestCorrections(mnemonic.replace("coal piece", "coat peace")),
+    ).toEqual([]);
+  });
+});
+
+describe("Erasure recovery", () => {
+  let slip: Slip39;
+
+  beforeAll(async () => {
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 1,
+      groups: [[3, 5]],
+    });
+  });
+
+  function erase(mnemonic: string, positions: number[]): (string | null)[] {
+    return mnemonic
+      .split(" ")
+      .map((word, position) => (positions.includes(position) ? null : word));
+  }
+
+  [[5], [0, 12], [1, 2, 19], [17, 18, 19]].forEach((positions) => {
+    it(`should recover the words at positions ${positions.join(", ")}`, () => {
+      const mnemonics = slip.fromPath("r/0").mnemonics;
+      const candidates = recoverErasures(
+        erase(mnemonics[0], positions),
+        mnemonics.slice(1, 3),
+      );
+      expect(candidates).toEqual([mnemonics[0]]);
+    });
+  });
+
+  it("should include the original mnemonic without other shares", () => {
+    const mnemonic = slip.fromPath("r/0/4").mnemonic;
+    expect(recoverErasures(erase(mnemonic, [3, 7, 11]))).toContain(mnemonic);
+  });
+
+  it("should throw when more than three words are missing", () => {
+    const mnemonic = slip.fromPath("r/0/0").mnemonic;
+    expect(() => recoverErasures(erase(mnemonic, [1, 2, 3, 4]))).toThrow(
+      "Too many unreadable words (4). At most 3 words can be recovered.",
+    );
+  });
+});
+
+describe("Abbreviated words", () => {
+  const mnemonic =
+    "duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard";
+  const abbreviated = mnemonic
+    .split(" ")
+    .map((word) => word.slice(0, 4))
+    .join(" ");
+
+  it("should complete prefixes to the words of the wordlist", () => {
+    expect(completeWord("acad")).toEqual(["academic"]);
+    expect(completeWord("ACADE")).toEqual(["academic"]);
+    expect(completeWord("ac")).toEqual([
+      "academic",
+      "acid",
+      "acne",
+      "acquire",
+      "acrobat",
+      "activity",
+      "actress",
+    ]);
+    expect(completeWord("acx")).toEqual([]);
+    expect(completeWord("")).toEqual([]);
+  });
+
+  it("should accept four-letter abbreviated mnemonics", async () => {
+    expect(Slip39.validateMnemonic(abbreviated)).toBeTruthy();
+    expect(
+      Buffer.from(
+        await Slip39.recoverSecret([abbreviated], PASSPHRASE),
+      ).toString("hex"),
+    ).toBe("bb54aac4b89dc868ba37d9cc21b2cece");
+  });
+
+  it("should throw when a prefix is ambiguous", async () => {
+    await expect(
+      Slip39.recoverSecret([mnemonic.replace("agency", "ag")]),
+    ).rejects.toThrow("Ambiguous mnemonic word ag. It is the prefix of");
+  });
+
+  it("should not resolve abbreviations shorter than four letters", async () => {
+    expect(resolveWord("ACID")).toBe(1);
+    expect(resolveWord("agen")).toBe(17);
+    expect(() => resolveWord("zer")).toThrow(
+      "Invalid mnemonic word zer. Abbreviated words must have at least 4 letters.",
+    );
+    await expect(
+      Slip39.recoverSecret([mnemonic.replace("ajar", "aja")]),
+    ).rejects.toMatchObject({
+      code: "INVALID_WORD",
+      context: { wordPosition: 16, word: "aja" },
+    });
+  });
+
+  it("should throw when a word is not in the wordlist", async () => {
+    await expect(
+      Slip39.recoverSecret([mnemonic.replace("agency", "agenda")]),
+    ).rejects.toThrow("Invalid mnemonic word agenda.");
+  });
+});
+
+describe("Extracting mnemonics from free-form text", () => {
+  const mnemonic128 =
+    "duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard";
+  const mnemonic256 =
+    "theory painting academic academic armed sweater year military elder discuss acne wildlife boring employer fused large satoshi bundle carbon diagnose anatomy hamster leaves tracks paces beyond phantom capital marvel lips brave detect luck";
+
+  it("should extract shares from a messy paste", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groups: [[2, 3]],
+    });
+    const shares = slip.fromPath("r/0").mnemonics;
+
+    const numbered = shares[0]
+      .split(" ")
+      .map((word, i) => `${String(i + 1)}. ${word.toUpperCase()}`)
+      .join("\n");
+    const wrapped = shares[2].split(" ");
+    const text = [
+      "Hi support, here is my family backup (share 1 of 3):",
+      numbered,
+      "and the second one, copied from a spreadsheet:",
+      wrapped.slice(0, 7).join("  ") +
+        ",\n" +
+        wrapped.slice(7).join("\t") +
+        ".",
+      `Old wallet: "${mnemonic128}"; the 256-bit one: ${mnemonic256}!!`,
+      "Abbreviated: " +
+        mnemonic128
+          .split(" ")
+          .map((word) => word.slice(0, 4))
+          .join(" "),
+      "Thanks, best regards.",
+    ].join("\n");
+
+    expect(extractMnemonics(text)).toEqual([
+      shares[0],
+      shares[2],
+      mnemonic128,
+      mnemonic256,
+      mnemonic128,
+    ]);
+  });
+
+  it("should return nothing for text without shares", () => {
+    expect(extractMnemonics("")).toEqual([]);
+    expect(
+      extractMnemonics(mnemonic128.split(" ").slice(0, 19).join(" ")),
+    ).toEqual([]);
+  });
+
+  it("should scan a long noisy stream in linear time", () => {
+    const words = mnemonic256.split(" ");
+    const noise = Array.from(
+      { length: 5000 },
+      (_, i) => words[(i * 7) % words.length],
+    ).join(" ");
+
+    expect(extractMnemonics(`${noise} ${mnemonic128} ${noise}`)).toEqual([
+      mnemonic128,
+    ]);
+  });
+});
+
+describe("Typed errors", () => {
+  let slip: Slip39;
+
+  beforeAll(async () => {
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: [
+        [1, 1, "Group 0"],
+        [2, 3, "Group 1"],
+        [1, 1, "Group 2"],
+      ],
+    });
+  });
+
+  it("should report the offending mnemonic and word", async () => {
+    const words = slip.fromPath("r/1").mnemonics[1].split(" ");
+    words[4] = "bitcoin";
+    const mnemonics = [slip.fromPath("r/0").mnemonics[0], words.join(" ")];
+
+    const promise = Slip39.recoverSecret(mnemonics);
+    await expect(promise).rejects.toBeInstanceOf(InvalidWordError);
+    await expect(promise).rejects.toBeInstanceOf(Slip39Error);
+    await expect(promise).rejects.toMatchObject({
+      code: "INVALID_WORD",
+      name: "InvalidWordError",
+      context: { mnemonicIndex: 1, wordPosition: 4, word: "bitcoin" },
+    });
+  });
+
+  it("should report ambiguous abbreviations", async () => {
+    const words = slip.fromPath("r/0").mnemonics[0].split(" ");
+    words[3] = "ac";
+
+    await expect(Slip39.recoverSecret([words.join(" ")])).rejects.toMatchObject(
+      {
+        code: "AMBIGUOUS_WORD",
+        context: { mnemonicIndex: 0, wordPosition: 3, word: "ac" },
+      },
+    );
+  });
+
+  it("should report an invalid checksum", async () => {
+    const words = slip.fromPath("r/0").mnemonics[0].split(" ");
+    words[6] = words[6] === "academic" ? "acid" : "academic";
+
+    await expect(
+      Slip39.recoverSecret([
+        slip.fromPath("r/2").mnemonics[0],
+        words.join(" "),
+      ]),
+    ).rejects.toMatchObject({
+      code: "INVALID_CHECKSUM",
+      context: { mnemonicIndex: 1 },
+    });
+  });
+
+  it("should report the missing groups and members", async () => {
+    await expect(
+      Slip39.recoverSecret(slip.fromPath("r/0").mnemonics),
+    ).rejects.toMatchObject({
+      code: "INSUFFICIENT_GROUPS",
+      context: { expected: 2, actual: 1 },
+    });
+
+    await expect(
+      Slip39.recoverSecret([
+        slip.fromPath("r/0").mnemonics[0],
+        slip.fromPath("r/1").mnemonics[2],
+      ]),
+    ).rejects.toMatchObject({
+      code: "INSUFFICIENT_MEMBERS",
+      context: { groupIndex: 1, expected: 2, actual: 1 },
+    });
+  });
+
+  it("should report mismatched identifiers", async () => {
+    const other = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: [
+        [1, 1],
+        [1, 1],
+      ],
+    });
+
+    await expect(
+      Slip39.recoverSecret([
+        slip.fromPath("r/0").mnemonics[0],
+        other.fromPath("r/1").mnemonics[0],
+      ]),
+    ).rejects.toMatchObject({ code: "MISMATCHED_IDENTIFIER" });
+  });
+
+  it("should report invalid parameters and paths", async () => {
+    await expect(
+      Slip39.fromArray(MASTERSECRET_HEX, { iterationExponent: 17 }),
+    ).rejects.toMatchObject({
+      code: "INVALID_ITERATION_EXPONENT",
+      context: { expected: 16, actual: 17 },
+    });
+
+    await expect(
+      Slip39.fromArray(MASTERSECRET_HEX, {
+        groupThreshold: 4,
+        groups: [[1, 1]],
+      }),
+    ).rejects.toMatchObject({
+      code: "INVALID_PARAMETER",
+      context: { expected: 1, actual: 4 },
+    });
+
+    expect(() => slip.fromPath("r/5")).toThrow(InvalidPathError);
+  });
+});
+
+describe("Share inspection", () => {
+  it("should decode the metadata of a test vector share", () => {
+    const info = inspectShare(
+      "duckling enlarge academic academic agency result length solution fridge kidney coal piece deal husband erode duke ajar critical decision keyboard",
+    );
+
+    expect(info).toMatchObject({
+      identifier: 7945,
+      extendableBackupFlag: 0,
+      iterationExponent: 0,
+      groupIndex: 0,
+      groupNumber: 1,
+      groupThreshold: 1,
+      groupCount: 1,
+      memberIndex: 0,
+      memberNumber: 1,
+      memberThreshold: 1,
+      wordCount: 20,
+      shareValueLength: 16,
+      secretLength: 16,
+      groupPrefix: ["duckling", "enlarge", "academic"],
+    });
+    expect(info.description).toBe(
+      "Member 1 of group 1 (member threshold 1), group threshold 1 of 1, identifier 7945, iteration exponent 0, not extendable",
+    );
+  });
+
+  it("should report 1-based numbers of a member of a larger set", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      iterationExponent: 1,
+      identifier: [0x30, 0x39],
+      groupThreshold: 2,
+      groups: [
+        [1, 1],
+        [3, 5],
+        [1, 1],
+        [2, 3],
+      ],
+    });
+    const mnemonic = slip.fromPath("r/1/2").mnemonics[0];
+    const info = inspectShare(mnemonic);
+
+    expect(info.groupIndex).toBe(1);
+    expect(info.memberIndex).toBe(2);
+    expect(info.groupPrefix).toEqual(mnemonic.split(" ").slice(0, 3));
+    expect(info.description).toBe(
+      "Member 3 of group 2 (member threshold 3), group threshold 2 of 4, identifier 12345, iteration exponent 1, extendable",
+    );
+  });
+
+  it("should reject invalid mnemonics", () => {
+    expect(() =>
+      inspectShare(slip15.fromPath("r/0/0").mnemonics[0] + " academic"),
+    ).toThrow(Slip39Error);
+  });
+});
+
+describe("Share set analysis", () => {
+  let slip: Slip39;
+  let forged: Slip39;
+  let other: Slip39;
+
+  beforeAll(async () => {
+    const groups = [
+      [2, 3, "Group 0"],
+      [1, 1, "Group 1"],
+      [3, 5, "Group 2"],
+    ];
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      identifier: [0x12, 0x34],
+      groupThreshold: 2,
+      groups: groups,
+    });
+    // Same identifier and policy, different secret.
+    forged = await Slip39.fromArray(encodeHexString("0123456789ABCDEF"), {
+      identifier: [0x12, 0x34],
+      groupThreshold: 2,
+      groups: groups,
+    });
+    other = await Slip39.fromArray(MASTERSECRET_HEX, {
+      identifier: [0x43, 0x21],
+      groups: [[1, 1]],
+    });
+  });
+
+  it("should report the groups and the missing shares of each set", () => {
+    const mnemonics = [
+      slip.fromPath("r/2/4").mnemonics[0],
+      other.fromPath("r/0").mnemonics[0],
+      slip.fromPath("r/0/1").mnemonics[0],
+      slip.fromPath("r/2/4").mnemonics[0],
+      "not a mnemonic",
+      forged.fromPath("r/0/1").mnemonics[0],
+      slip.fromPath("r/2/0").mnemonics[0],
+      slip.fromPath("r/0/2").mnemonics[0],
+    ];
+
+    const analysis = analyzeShares(mnemonics);
+
+    expect(analysis.duplicates).toEqual([{ mnemonicIndex: 3, duplicateOf: 0 }]);
+    expect(analysis.conflicts).toEqual([
+      { mnemonicIndex: 5, conflictsWith: 2, reason: "share" },
+    ]);
+    expect(analysis.invalid.length).toBe(1);
+    expect(analysis.invalid[0].mnemonicIndex).toBe(4);
+    expect(analysis.invalid[0].error.code).toBe("INVALID_WORD");
+
+    expect(analysis.sets.length).toBe(2);
+    expect(analysis.sets[0]).toEqual({
+      identifier: 0x1234,
+      extendableBackupFlag: 1,
+      iterationExponent: 0,
+      groupThreshold: 2,
+      groupCount: 3,
+      mnemonicIndices: [0, 2, 6, 7],
+      groups: [
+        {
+          groupIndex: 0,
+          memberThreshold: 2,
+          memberIndices: [1, 2],
+          membersNeeded: 0,
+          isComplete: true,
+        },
+        {
+          groupIndex: 2,
+          memberThreshold: 3,
+          memberIndices: [0, 4],
+          membersNeeded: 1,
+          isComplete: false,
+        },
+      ],
+      groupsComplete: 1,
+      groupsNeeded: 1,
+      isComplete: false,
+    });
+    expect(analysis.sets[1]).toMatchObject({
+      mnemonicIndices: [1],
+      groupsNeeded: 0,
+      isComplete: true,
+    });
+  });
+
+  it("should not silently overwrite conflicting shares when recovering", async () => {
+    await expect(
+      Slip39.recoverSecret([
+        slip.fromPath("r/1").mnemonics[0],
+        slip.fromPath("r/0/1").mnemonics[0],
+        forged.fromPath("r/0/1").mnemonics[0],
+      ]),
+    ).rejects.toMatchObject({
+      code: "INVALID_SHARE_SET",
+      message:
+        "Invalid set of mnemonics. The mnemonics of member 2 of group 1 have different share values.",
+      context: { mnemonicIndex: 2, groupIndex: 0, memberIndex: 1 },
+    });
+  });
+});
+
+describe("Recovering with surplus shares", () => {
+  let slip: Slip39;
+  let forged: Slip39;
+
+  beforeAll(async () => {
+    const groups = [
+      [2, 3, "Group 0"],
+      [1, 1, "Group 1"],
+      [3, 5, "Group 2"],
+    ];
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      identifier: [0x12, 0x34],
+      groupThreshold: 2,
+      groups: groups,
+    });
+    // Same identifier and policy, different secret.
+    forged = await Slip39.fromArray(encodeHexString("0123456789ABCDEF"), {
+      passphrase: PASSPHRASE,
+      identifier: [0x12, 0x34],
+      groupThreshold: 2,
+      groups: groups,
+    });
+  });
+
+  it("should accept surplus members and groups", async () => {
+    const mnemonics = slip
+      .fromPath("r/0")
+      .mnemonics.concat(slip.fromPath("r/1").mnemonics)
+      .concat(slip.fromPath("r/2").mnemonics.slice(1, 5));
+
+    const secret = await Slip39.recoverSecret(mnemonics, PASSPHRASE);
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+
+    const report = await Slip39.recoverSecretWithReport(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.isConsistent).toBeTruthy();
+    expect(report.shares.map((item) => item.status)).toEqual([
+      "used",
+      "used",
+      "agrees",
+      "used",
+      "agrees",
+      "agrees",
+      "agrees",
+      "agrees",
+    ]);
+  });
+
+  it("should ignore incomplete groups when enough groups are complete", async () => {
+    const mnemonics = slip
+      .fromPath("r/2")
+      .mnemonics.slice(0, 2)
+      .concat(slip.fromPath("r/1").mnemonics)
+      .concat(slip.fromPath("r/0").mnemonics.slice(0, 2));
+
+    const report = await Slip39.recoverSecretWithReport(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.shares.map((item) => item.status)).toEqual([
+      "unused",
+      "unused",
+      "used",
+      "used",
+      "used",
+    ]);
+  });
+
+  it("should report surplus members which are inconsistent", async () => {
+    const mnemonics = slip
+      .fromPath("r/1")
+      .mnemonics.concat(slip.fromPath("r/0").mnemonics.slice(0, 2))
+      .concat(forged.fromPath("r/0/2").mnemonics);
+
+    await expect(
+      Slip39.recoverSecret(mnemonics, PASSPHRASE),
+    ).rejects.toMatchObject({
+      code: "INVALID_SHARE_SET",
+      message:
+        "Invalid set of mnemonics. The share of member 3 of group 1 is inconsistent with the other shares.",
+      context: { groupIndex: 0, memberIndex: 2 },
+    });
+
+    const report = await Slip39.recoverSecretWithReport(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.isConsistent).toBeFalsy();
+    expect(report.shares[3]).toEqual({
+      mnemonicIndex: 3,
+      groupIndex: 0,
+      memberIndex: 2,
+      status: "disagrees",
+    });
+  });
+
+  it("should report surplus groups which are inconsistent", async () => {
+    const mnemonics = slip
+      .fromPath("r/1")
+      .mnemonics.concat(slip.fromPath("r/0").mnemonics.slice(0, 2))
+      .concat(forged.fromPath("r/2").mnemonics.slice(0, 3));
+
+    const report = await Slip39.recoverSecretWithReport(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.shares.map((item) => item.status)).toEqual([
+      "used",
+      "used",
+      "used",
+      "disagrees",
+      "disagrees",
+      "disagrees",
+    ]);
+  });
+
+  it("should not depend on the position of an inconsistent member", async () => {
+    const mnemonics = forged
+      .fromPath("r/0/2")
+      .mnemonics.concat(slip.fromPath("r/0").mnemonics.slice(0, 2))
+      .concat(slip.fromPath("r/1").mnemonics);
+
+    await expect(
+      Slip39.recoverSecret(mnemonics, PASSPHRASE),
+    ).rejects.toMatchObject({
+      code: "INVALID_SHARE_SET",
+      context: { groupIndex: 0, memberIndex: 2 },
+    });
+
+    const report = await Slip39.recoverSecretWithReport(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.shares.map((item) => item.status)).toEqual([
+      "disagrees",
+      "used",
+      "used",
+      "used",
+    ]);
+  });
+
+  it("should not depend on the position of an inconsistent group", async () => {
+    const mnemonics = forged
+      .fromPath("r/2")
+      .mnemonics.slice(0, 3)
+      .concat(slip.fromPath("r/0").mnemonics.slice(0, 2))
+      .concat(slip.fromPath("r/1").mnemonics);
+
+    await expect(
+      Slip39.recoverSecret(mnemonics, PASSPHRASE),
+    ).rejects.toMatchObject({
+      code: "INVALID_SHARE_SET",
+      context: { groupIndex: 2 },
+    });
+
+    const report = await Slip39.recoverSecretWithReport(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.shares.map((item) => item.status)).toEqual([
+      "disagrees",
+      "disagrees",
+      "disagrees",
+      "used",
+      "used",
+      "used",
+    ]);
+  });
+});
+
+describe("Finding faulty shares", () => {
+  let slip: Slip39;
+  let forged: Slip39;
+
+  beforeAll(async () => {
+    const groups = [
+      [2, 3, "Group 0"],
+      [1, 1, "Group 1"],
+      [3, 5, "Group 2"],
+    ];
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      identifier: [0x12, 0x34],
+      groupThreshold: 2,
+      groups: groups,
+    });
+    // Same identifier and policy, different secret.
+    forged = await Slip39.fromArray(encodeHexString("0123456789ABCDEF"), {
+      passphrase: PASSPHRASE,
+      identifier: [0x12, 0x34],
+      groupThreshold: 2,
+      groups: groups,
+    });
+  });
+
+  it("should pinpoint the inconsistent members of an over-complete group", async () => {
+    const mnemonics = [
+      slip.fromPath("r/0/0").mnemonics[0],
+      forged.fromPath("r/0/2").mnemonics[0],
+      slip.fromPath("r/0/1").mnemonics[0],
+      slip.fromPath("r/1").mnemonics[0],
+      slip.fromPath("r/2/0").mnemonics[0],
+      slip.fromPath("r/2/3").mnemonics[0],
+      "not a mnemonic",
+      slip.fromPath("r/2/4").mnemonics[0],
+    ];
+    await expect(Slip39.recoverSecret(mnemonics, PASSPHRASE)).rejects.toThrow();
+
+    const report = await findFaultyShares(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.suspects).toEqual([1, 6]);
+    expect(report.consistent).toEqual([0, 2, 3, 4, 5, 7]);
+    expect(report.unverified).toEqual([]);
+  });
+
+  it("should suspect a whole group which fails the digest check", async () => {
+    const mnemonics = [
+      slip.fromPath("r/1").mnemonics[0],
+      slip.fromPath("r/0/0").mnemonics[0],
+      forged.fromPath("r/0/1").mnemonics[0],
+      slip.fromPath("r/2/0").mnemonics[0],
+      slip.fromPath("r/2/1").mnemonics[0],
+      slip.fromPath("r/2/2").mnemonics[0],
+    ];
+    await expect(
+      Slip39.recoverSecret(mnemonics, PASSPHRASE),
+    ).rejects.toMatchObject({ code: "INVALID_SHARE_SET" });
+
+    const report = await findFaultyShares(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.suspects).toEqual([1, 2]);
+    expect(report.consistent).toEqual([0, 3, 4, 5]);
+  });
+
+  it("should report incomplete groups as unverified", async () => {
+    const mnemonics = [
+      slip.fromPath("r/2/0").mnemonics[0],
+      slip.fromPath("r/1").mnemonics[0],
+      slip.fromPath("r/0/0").mnemonics[0],
+      slip.fromPath("r/0/1").mnemonics[0],
+    ];
+
+    const report = await findFaultyShares(mnemonics, PASSPHRASE);
+    expect(decodeHexString(report.secret)).toBe(MASTERSECRET);
+    expect(report.suspects).toEqual([]);
+    expect(report.unverified).toEqual([0]);
+  });
+
+  it("should fail without enough consistent groups", async () => {
+    await expect(
+      findFaultyShares([
+        slip.fromPath("r/1").mnemonics[0],
+        slip.fromPath("r/0/0").mnemonics[0],
+        forged.fromPath("r/0/1").mnemonics[0],
+      ]),
+    ).rejects.toMatchObject({
+      code: "INSUFFICIENT_GROUPS",
+      context: { expected: 2, actual: 1 },
+    });
+  });
+
+  it("should fail if none of the mnemonics decodes", async () => {
+    await expect(
+      findFaultyShares(["foo bar", "not a mnemonic"]),
+    ).rejects.toMatchObject({
+      code: "INVALID_SHARE_SET",
+      context: { expected: 1, actual: 0 },
+    });
+  });
+});
+
+describe("Byte, hex, base64 and base58 codecs", () => {
+  const text = (s: string) => Uint8Array.from(encodeHexString(s));
+
+  it("should encode and decode hex strictly", () => {
+    expect(encodeHex([0, 1, 171, 255])).toBe("0001abff");
+    expect(decodeHex("0001ABff")).toEqual(Uint8Array.from([0, 1, 171, 255]));
+    expect(decodeHex("")).toEqual(new Uint8Array(0));
+    ["abc", "0x00", "0g", "00 11"].forEach((hex) =>
+      expect(() => decodeHex(hex)).toThrow(InvalidEncodingError),
+    );
+    expect(() => encodeHex([256])).toThrow(
+      "Invalid byte value (256) at index 0. Expected an integer between 0 and 255.",
+    );
+  });
+
+  it("should encode and decode the RFC 4648 base64 test vectors", () => {
+    const vectors = [
+      ["", ""],
+      ["f", "Zg=="],
+      ["fo", "Zm8="],
+      ["foo", "Zm9v"],
+      ["foob", "Zm9vYg=="],
+      ["fooba", "Zm9vYmE="],
+      ["foobar", "Zm9vYmFy"],
+    ];
+    vectors.forEach(([plain, base64]) => {
+      expect(encodeBase64(text(plain))).toBe(base64);
+      expect(decodeBase64(base64)).toEqual(text(plain));
+    });
+    ["Zg", "Zg=", "Zh==", "Z===", "Zm-v", "Zm9v\n"].forEach((base64) =>
+      expect(() => decodeBase64(base64)).toThrow(InvalidEncodingError),
+    );
+  });
+
+  it("should encode and decode base58", () => {
+    expect(encodeBase58(text("Hello World!"))).toBe("2NEpo7TZRRrLZSi2U");
+    expect(decodeBase58("2NEpo7TZRRrLZSi2U")).toEqual(text("Hello World!"));
+    expect(encodeBase58([0, 0, 40, 127, 180, 205])).toBe("11233QC4");
+    expect(decodeBase58("11233QC4")).toEqual(
+      Uint8Array.from([0, 0, 40, 127, 180, 205]),
+    );
+    expect(() => decodeBase58("0OIl")).toThrow(
+      'Invalid base58 string. Unexpected character "0" at index 0.',
+    );
+  });
+
+  it("should create and recover shares of byte and hex secrets", async () => {
+    const hex = "bb54aac4b89dc868ba37d9cc21b2cece";
+    const groups = [
+      [1, 1],
+      [2, 3],
+    ];
+
+    const fromHex = await Slip39.fromHex(hex, {
+      passphrase: PASSPHRASE,
+      groups: groups,
+    });
+    const recovered = await Slip39.recoverSecretBytes(
+      fromHex
+        .fromPath("r/1/0")
+        .mnemonics.concat(fromHex.fromPath("r/1/2").mnemonics),
+      PASSPHRASE,
+    );
+    expect(recovered).toBeInstanceOf(Uint8Array);
+    expect(encodeHex(recovered)).toBe(hex);
+
+    const fromBytes = await Slip39.fromBytes(decodeHex(hex), {
+      groups: groups,
+    });
+    expect(
+      encodeHex(
+        await Slip39.recoverSecretBytes(fromBytes.fromPath("r/0").mnemonics),
+      ),
+    ).toBe(hex);
+
+    await expect(
+      Slip39.fromHex("bb54aac4b89dc868ba37d9cc21b2cec"),
+    ).rejects.toThrow(InvalidEncodingError);
+  });
+});
+
+describe("BIP39 interoperability", () => {
+  // https://github.com/trezor/python-mnemonic/blob/master/vectors.json
+  const vectors = [
+    [
+      "00000000000000000000000000000000",
+      "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about",
+      "c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04",
+    ],
+    [
+      "7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f",
+      "legal winner thank year wave sausage worth useful legal winner thank yellow",
+      "2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607",
+    ],
+    [
+      "ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff",
+      "zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote",
+      "dd48c104698c30cfe2b6142103248622fb7bb0ff692eebb00089b32d22484e1613912f0a5b694407be899ffd31ed3992c456cdf60f5d4564b8ba3f05a69890ad",
+    ],
+  ];
+
+  it("should convert between entropy and BIP39 mnemonics", async () => {
+    for (const [entropy, mnemonic, seed] of vectors) {
+      expect(await bip39EntropyToMnemonic(Array.from(decodeHex(entropy)))).toBe(
+        mnemonic,
+      );
+      expect(encodeHex(await bip39MnemonicToEntropy(mnemonic))).toBe(entropy);
+      expect(encodeHex(await bip39MnemonicToSeed(mnemonic, "TREZOR"))).toBe(
+        seed,
+      );
+    }
+  });
+
+  it("should validate BIP39 mnemonics", async () => {
+    const words = vectors[1][1].split(" ");
+    expect(await validateBip39Mnemonic(vectors[1][1])).toBeTruthy();
+    expect(await validateBip39Mnemonic(words.slice(1).join(" "))).toBeFalsy();
+
+    await expect(
+      bip39MnemonicToEntropy(words.slice(0, 11).concat("winner").join(" ")),
+    ).rejects.toMatchObject({ code: "INVALID_CHECKSUM" });
+    await expect(
+      bip39MnemonicToEntropy(
+        words
+          .slice(0, 3)
+          .concat("constructor", ...words.slice(4))
+          .join(" "),
+      ),
+    ).rejects.toMatchObject({
+      code: "INVALID_WORD",
+      context: { word: "constructor", wordPosition: 3 },
+    });
+    await expect(
+      bip39EntropyToMnemonic(Array.from(decodeHex("00".repeat(17)))),
+    ).rejects.toMatchObject({ code: "INVALID_PARAMETER" });
+  });
+
+  it("should restore the BIP39 mnemonic from SLIP39 shares", async () => {
+    const mnemonic = vectors[2][1];
+    const slip = await Slip39.fromBip39Mnemonic(mnemonic, {
+      passphrase: PASSPHRASE,
+      groupThreshold: 2,
+      groups: [
+        [1, 1],
+        [2, 3],
+      ],
+    });
+    const shares = slip
+      .fromPath("r/0")
+      .mnemonics.concat(slip.fromPath("r/1/0").mnemonics)
+      .concat(slip.fromPath("r/1/2").mnemonics);
+
+    expect(await Slip39.recoverBip39Mnemonic(shares, PASSPHRASE)).toBe(
+      mnemonic,
+    );
+    // The shares protect the entropy, not the BIP39 seed.
+    expect(encodeHex(await Slip39.recoverSecret(shares, PASSPHRASE))).toBe(
+      vectors[2][0],
+    );
+  });
+});
+
+describe("BIP32 key derivation", () => {
+  it("should derive the master keys of the original test vectors", async () => {
+    const fs = require("fs");
+    const path = require("path");
+    const tests = JSON.parse(
+      fs.readFileSync(path.join(__dirname, "vectors.json"), "utf8"),
+    );
+
+    for (const [, mnemonics, masterSecret, xprv] of tests) {
+      if (masterSecret.length === 0) {
+        continue;
+      }
+      const secret = await Slip39.recoverSecret(mnemonics, PASSPHRASE);
+      expect((await deriveBip32Root(secret)).xprv).toBe(xprv);
+    }
+  });
+
+  // https://github.com/bitcoin/bips/blob/master/bip-0032.mediawiki#test-vector-1
+  it("should derive the child keys of BIP32 test vector 1", async () => {
+    const root = await deriveBip32Root(
+      Array.from(decodeHex("000102030405060708090a0b0c0d0e0f")),
+    );
+    expect(root.xprv).toBe(
+      "xprv9s21ZrQH143K3QTDL4LXw2F7HEK3wJUD2nW2nRk4stbPy6cq3jPPqjiChkVvvNKmPGJxWUtg6LnF5kejMRNNU3TGtRBeJgk33yuGBxrMPHi",
+    );
+    expect(root.xpub).toBe(
+      "xpub661MyMwAqRbcFtXgS5sYJABqqG9YLmC4Q1Rdap9gSE8NqtwybGhePY2gZ29ESFjqJoCu1Rupje8YtGqsefD265TMg7usUDFdp6W1EGMcet8",
+    );
+    expect(root.fingerprint).toBe(0x3442193e);
+
+    const child = await deriveBip32Path(root, "m/0'/1");
+    expect(child.depth).toBe(2);
+    expect(child.xprv).toBe(
+      "xprv9wTYmMFdV23N2TdNG573QoEsfRrWKQgWeibmLntzniatZvR9BmLnvSxqu53Kw1UmYPxLgboyZQaXwTCg8MSY3H2EU4pWcQDnRnrVA1xe8fs",
+    );
+    expect(child.xpub).toBe(
+      "xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ",
+    );
+    expect((await deriveBip32Path(root, "m/0h/1")).xprv).toBe(child.xprv);
+  });
+
+  it("should reject invalid paths", async () => {
+    const root = await deriveBip32Root(
+      Array.from(decodeHex("000102030405060708090a0b0c0d0e0f")),
+    );
+    await expect(deriveBip32Path(root, "0/1")).rejects.toThrow(
+      InvalidPathError,
+    );
+    expect(() => parseBip32Path("m/2147483648")).toThrow(InvalidPathError);
+    expect(parseBip32Path("m/44'/0h/1")).toEqual([0x8000002c, 0x80000000, 1]);
+  });
+});
+
+describe("SLIP-0010 key derivation", () => {
+  // https://github.com/satoshilabs/slips/blob/master/slip-0010.md#test-vector-1-for-ed25519
+  const seed = Array.from(decodeHex("000102030405060708090a0b0c0d0e0f"));
+
+  it("should derive the ed25519 keys of test vector 1", async () => {
+    const root = await deriveSlip10Root("ed25519", seed);
+    expect(encodeHex(root.chainCode)).toBe(
+      "90046a93de5380a72b5e45010748567d5ea02bbf6522f979e05c0d8d8ca9fffb",
+    );
+    expect(encodeHex(root.privateKey)).toBe(
+      "2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7",
+    );
+    expect(encodeHex(root.publicKey)).toBe(
+      "a4b2856bfec510abab89753fac1ac0e1112364e7d250545963f135f2a33188ed",
+    );
+
+    const child = await deriveSlip10Path(root, "m/0'");
+    expect(encodeHex(child.chainCode)).toBe(
+      "8b59aa11380b624e81507a27fedda59fea6d0b779a778918a2fd3590e16e9c69",
+    );
+    expect(encodeHex(child.privateKey)).toBe(
+      "68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3",
+    );
+    expect(encodeHex(child.publicKey)).toBe(
+      "8c8a13df77a28f3445213a0f432fde644acaa215fc72dcdf300d5efaa85d350c",
+    );
+
+    await expect(deriveSlip10Path(root, "m/0")).rejects.toThrow(
+      "Invalid child index (0). Only hardened derivation is supported for ed25519.",
+    );
+  });
+
+  it("should derive the nist256p1 keys of test vector 1", async () => {
+    const root = await deriveSlip10Root("nist256p1", seed);
+    expect(encodeHex(root.chainCode)).toBe(
+      "beeb672fe4621673f722f38529c07392fecaa61015c80c34f29ce8b41b3cb6ea",
+    );
+    expect(encodeHex(root.privateKey)).toBe(
+      "612091aaa12e22dd2abef664f8a01a82cae99ad7441b7ef8110424915c268bc2",
+    );
+    expect(encodeHex(root.publicKey)).toBe(
+      "0266874dc6ade47b3ecd096745ca09bcd29638dd52c2c12117b11ed3e458cfa9e8",
+    );
+
+    const child = await deriveSlip10Path(root, "m/0'");
+    expect(encodeHex(child.chainCode)).toBe(
+      "3460cea53e6a6bb5fb391eeef3237ffd8724bf0a40e94943c98b83825342ee11",
+    );
+    expect(encodeHex(child.privateKey)).toBe(
+      "6939694369114c67917a182c59ddb8cafc3004e63ca5d3b84403ba8613debc0c",
+    );
+    expect(encodeHex(child.publicKey)).toBe(
+      "0384610f5ecffe8fda089363a41f56a5c7ffc1d81b59a612d0d649b2d22355590c",
+    );
+  });
+});
+
+describe("Cardano Icarus root key derivation", () => {
+  // https://github.com/cardano-foundation/CIPs/blob/master/CIP-0003/Icarus.md
+  const entropy = Array.from(
+    decodeHex("46e62370a138a182a498b8e2885bc032379ddf38"),
+  );
+
+  it("should derive the Icarus test vectors", async () => {
+    const root = await deriveCardanoRootKey(entropy);
+    expect(encodeHex(root.extendedKey)).toBe(
+      "c065afd2832cd8b087c4d9ab7011f481ee1e0721e78ea5dd609f3ab3f156d245d176bd8fd4ec60b4731c3918a2a72a0226c0cd119ec35b47e4d55884667f552a23f7fdcd4a10c6cd2c7393ac61d877873e248f417634aa3d812af327ffe9d620",
+    );
+    expect(encodeHex(root.chainCode)).toBe(
+      "23f7fdcd4a10c6cd2c7393ac61d877873e248f417634aa3d812af327ffe9d620",
+    );
+    expect(root.rootXsk).toBe(
+      "root_xsk1cpj6l55r9nvtpp7ymx4hqy05s8hpupepu782thtqnuat8u2k6fzaza4a3l2wcc95wvwrjx9z5u4qyfkqe5geas6mgljd2kyyvel4223r7l7u6jsscmxjcuun43sasau88cjg7stkxj4rmqf27vnll6wkyqya0lre",
+    );
+
+    expect(
+      encodeHex((await deriveCardanoRootKey(entropy, "foo")).extendedKey),
+    ).toBe(
+      "70531039904019351e1afb361cd1b312a4d0565d4ff9f8062d38acf4b15cce41d7b5738d9c893feea55512a3004acb0d222c35d3e3d5cde943a15a9824cbac59443cf67e589614076ba01e354b1a432e0e6db3b59e37fc56b5fb0222970a010e",
+    );
+  });
+
+  it("should derive the root key of a recovered share set", async () => {
+    const slip = await Slip39.fromArray(entropy, {
+      passphrase: "foo",
+      groups: [[2, 3]],
+    });
+    const secret = await Slip39.recoverSecret(
+      slip.fromPath("r/0/0").mnemonics.concat(slip.fromPath("r/0/2").mnemonics),
+      "foo",
+    );
+    expect((await deriveCardanoRootKey(secret, "foo")).rootXsk).toBe(
+      (await deriveCardanoRootKey(entropy, "foo")).rootXsk,
+    );
+  });
+
+  it("should encode bech32", () => {
+    expect(encodeBech32("a", [])).toBe("a12uel5l");
+    expect(() => encodeBech32("A", [])).toThrow(Slip39Error);
+  });
+});
+
+describe("Progress reporting and cancellation", () => {
+  it("should report the progress of each round", async () => {
+    const progress: number[][] = [];
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      onProgress: (round, totalRounds) => progress.push([round, totalRounds]),
+    });
+    expect(progress).toEqual([
+      [1, 4],
+      [2, 4],
+      [3, 4],
+      [4, 4],
+    ]);
+
+    const rounds: number[] = [];
+    const secret = await Slip39.recoverSecret(
+      slip.fromPath("r/0").mnemonics,
+      PASSPHRASE,
+      { onProgress: (round) => rounds.push(round) },
+    );
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+    expect(rounds).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should reject with a cancellation error once aborted", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      iterationExponent: 1,
+    });
+    const mnemonics = slip.fromPath("r/0").mnemonics;
+
+    const controller = new AbortController();
+    const rounds: number[] = [];
+    const promise = Slip39.recoverSecret(mnemonics, "", {
+      signal: controller.signal,
+      onProgress: (round) => {
+        rounds.push(round);
+        if (round === 2) {
+          controller.abort();
+        }
+      },
+    });
+    await expect(promise).rejects.toBeInstanceOf(CancelledError);
+    await expect(promise).rejects.toMatchObject({ code: "CANCELLED" });
+    expect(rounds).toEqual([1, 2]);
+
+    await expect(
+      Slip39.fromArray(MASTERSECRET_HEX, { signal: controller.signal }),
+    ).rejects.toThrow("The operation was cancelled.");
+  });
+});
+
+describe("Crypto providers", () => {
+  const nodeProvider = createNodeCryptoProvider(nodeCrypto);
+
+  it("should produce the same results with the Node.js provider", async () => {
+    const data = encodeHexString("data");
+    const key = encodeHexString("key");
+    for (const method of ["sha256", "sha512"] as const) {
+      expect(await nodeProvider[method](data)).toEqual(
+        await webCryptoProvider[method](data),
+      );
+    }
+    for (const method of ["hmacSha256", "hmacSha512"] as const) {
+      expect(await nodeProvider[method](key, data)).toEqual(
+        await webCryptoProvider[method](key, data),
+      );
+    }
+    for (const method of ["pbkdf2Sha256", "pbkdf2Sha512"] as const) {
+      expect(await nodeProvider[method](key, data, 100, 48)).toEqual(
+        await webCryptoProvider[method](key, data, 100, 48),
+      );
+    }
+    expect(nodeProvider.randomBytes(16)).toHaveLength(16);
+  });
+
+  it("should recover with either provider", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      groupThreshold: 2,
+      groups: [
+        [2, 3],
+        [1, 1],
+      ],
+      cryptoProvider: nodeProvider,
+    });
+    const mnemonics = slip.fromPath("r/0").mnemonics.slice(0, 2);
+    mnemonics.push(...slip.fromPath("r/1").mnemonics);
+
+    const secret = await Slip39.recoverSecret(mnemonics, PASSPHRASE);
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+    const nodeSecret = await Slip39.recoverSecret(mnemonics, PASSPHRASE, {
+      cryptoProvider: nodeProvider,
+    });
+    expect(decodeHexString(nodeSecret)).toBe(MASTERSECRET);
+  });
+
+  it("should route every random byte and PBKDF2 round to the provider", async () => {
+    const calls: string[] = [];
+    const fakeProvider = {
+      ...webCryptoProvider,
+      randomBytes: (length: number) => {
+        calls.push("randomBytes");
+        return new Array<number>(length).fill(7);
+      },
+      pbkdf2Sha256: (
+        password: number[],
+        salt: number[],
+        iterations: number,
+        length: number,
+      ) => {
+        calls.push("pbkdf2Sha256");
+        return webCryptoProvider.pbkdf2Sha256(
+          password,
+          salt,
+          iterations,
+          length,
+        );
+      },
+    };
+
+    const options = {
+      groups: [[3, 5]],
+      cryptoProvider: fakeProvider,
+    };
+    const first = await Slip39.fromArray(MASTERSECRET_HEX, options);
+    const second = await Slip39.fromArray(MASTERSECRET_HEX, options);
+    expect(first.identifier).toEqual([7, 7]);
+    expect(first.root.mnemonics).toEqual(second.root.mnemonics);
+    expect(calls.filter((call) => call === "pbkdf2Sha256")).toHaveLength(8);
+
+    calls.length = 0;
+    const secret = await Slip39.recoverSecret(
+      first.fromPath("r/0").mnemonics.slice(0, 3),
+      "",
+      { cryptoProvider: fakeProvider },
+    );
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+    expect(calls).toEqual(new Array<string>(4).fill("pbkdf2Sha256"));
+  });
+});
+
+describe("Entropy sources", () => {
+  // A counter based source, reproducible from its seed.
+  function seededSource(seed: number) {
+    let counter = seed;
+    const requested: number[] = [];
+    return {
+      requested: requested,
+      randomBytes: (length: number) => {
+        requested.push(length);
+        return Array.from({ length: length }, () => counter++ & 0xff);
+      },
+    };
+  }
+
+  it("should reproduce the shares from a seeded source", async () => {
+    const options = {
+      groupThreshold: 2,
+      groups: [
+        [2, 3],
+        [3, 5],
+        [1, 1],
+      ],
+    };
+    const first = await Slip39.fromArray(MASTERSECRET_HEX, {
+      ...options,
+      entropySource: seededSource(42),
+    });
+    const second = await Slip39.fromArray(MASTERSECRET_HEX, {
+      ...options,
+      entropySource: seededSource(42),
+    });
+    const third = await Slip39.fromArray(MASTERSECRET_HEX, {
+      ...options,
+      entropySource: seededSource(43),
+    });
+
+    expect(first.identifier).toEqual([42, 43]);
+    expect(first.root.mnemonics).toEqual(second.root.mnemonics);
+    expect(first.root.mnemonics).not.toEqual(third.root.mnemonics);
+
+    const mnemonics = first.fromPath("r/1").mnemonics.slice(0, 3);
+    mnemonics.push(...first.fromPath("r/2").mnemonics);
+    const secret = await Slip39.recoverSecret(mnemonics);
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+  });
+
+  it("should draw every random byte from the source", async () => {
+    const source = seededSource(0);
+    const cryptoProvider = {
+      ...webCryptoProvider,
+      randomBytes: (): number[] => {
+        throw new Error("Unexpected use of the crypto provider.");
+      },
+    };
+    await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: [
+        [2, 3],
+        [3, 5],
+      ],
+      cryptoProvider: cryptoProvider,
+      entropySource: source,
+    });
+    // The identifier, the group level random part and the member level random
+    // parts and shares.
+    expect(source.requested).toEqual([2, 12, 12, 12, 16]);
+  });
+
+  it("should reshare with a fresh identifier from the source", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groups: [[2, 3]],
+      entropySource: seededSource(100),
+    });
+    const mnemonics = slip.fromPath("r/0").mnemonics.slice(0, 2);
+    const reshared = await Slip39.reshare(mnemonics, {
+      groups: [[2, 2]],
+      groupThreshold: 1,
+      entropySource: seededSource(1),
+    });
+    expect(reshared.identifier).toEqual([1, 2]);
+
+    const secret = await Slip39.recoverSecret(reshared.root.mnemonics);
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+  });
+
+  it("should not reshare with a source replaying the old identifier", async () => {
+    const zeroSource = {
+      randomBytes: (length: number) => new Array<number>(length).fill(0),
+    };
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groups: [[2, 3]],
+      entropySource: zeroSource,
+    });
+    await expect(
+      Slip39.reshare(slip.fromPath("r/0").mnemonics.slice(0, 2), {
+        groups: [[2, 2]],
+        groupThreshold: 1,
+        entropySource: zeroSource,
+      }),
+    ).rejects.toMatchObject({
+      code: "INVALID_PARAMETER",
+      message:
+        "The entropy source kept returning the identifier of the mnemonics (0) in 16 attempts.",
+    });
+  });
+});
+
+describe("Master secret generation", () => {
+  const zeroSource = {
+    randomBytes: (length: number) => new Array<number>(length).fill(0),
+  };
+
+  it("should generate 128 and 256 bit master secrets", async () => {
+    const generated = await generateMasterSecret();
+    expect(generated.masterSecret).toHaveLength(16);
+    expect(generated.systemEntropyBits).toBe(128);
+    expect(generated.userEntropyBits).toBe(0);
+    expect(generated.mixing).toBe("HMAC-SHA256");
+
+    const long = await generateMasterSecret({ bits: 256 });
+    expect(long.masterSecret).toHaveLength(32);
+
+    const slip = await Slip39.fromArray(long.masterSecret);
+    expect(await Slip39.recoverSecret(slip.root.mnemonics)).toEqual(
+      long.masterSecret,
+    );
+  });
+
+  it("should mix the user entropy with HMAC-SHA256", async () => {
+    const generated = await generateMasterSecret({
+      userEntropy: [
+        { kind: "dice", value: "3 6 1 4 2" },
+        { kind: "coins", value: "HTTH" },
+      ],
+      entropySource: zeroSource,
+    });
+
+    const expected = nodeCrypto
+      .createHmac("sha256", new Uint8Array(16))
+      .update("dice:9:3,6,1,4,2coins:4:1001")
+      .digest();
+    expect(generated.masterSecret).toEqual(
+      Array.from(expected.subarray(0, 16)),
+    );
+    expect(generated.userEntropy).toEqual([
+      { kind: "dice", count: 5, maxBits: 12, creditedBits: 12 },
+      { kind: "coins", count: 4, maxBits: 4, creditedBits: 4 },
+    ]);
+    expect(generated.userEntropyBits).toBe(16);
+
+    const other = await generateMasterSecret({
+      userEntropy: [{ kind: "dice", value: "36142" }],
+      entropySource: zeroSource,
+    });
+    expect(other.masterSecret).not.toEqual(generated.masterSecret);
+  });
+
+  it("should only credit text with the claimed entropy", async () => {
+    const generated = await generateMasterSecret({
+      userEntropy: [
+        { kind: "text", value: "correct horse" },
+        { kind: "text", value: "battery staple", claimedBits: 20 },
+        { kind: "dice", value: "12,20,7", sides: 20, claimedBits: 10 },
+      ],
+    });
+    expect(generated.userEntropy).toEqual([
+      { kind: "text", count: 13, maxBits: 104, creditedBits: 0 },
+      { kind: "text", count: 14, maxBits: 112, creditedBits: 20 },
+      { kind: "dice", count: 3, maxBits: 12, creditedBits: 10 },
+    ]);
+  });
+
+  it("should reject invalid user entropy", async () => {
+    const invalid = [
+      { bits: 192 },
+      { userEntropy: [{ kind: "dice", value: "1 2 7" }] },
+      { userEntropy: [{ kind: "dice", value: "0" }] },
+      { userEntropy: [{ kind: "dice", value: "11", sides: 1 }] },
+      { userEntropy: [{ kind: "coins", value: "HTX" }] },
+      { userEntropy: [{ kind: "text", value: "  " }] },
+      { userEntropy: [{ kind: "coins", value: "HT", claimedBits: 3 }] },
+      { userEntropy: [{ kind: "text", value: "a", claimedBits: 9 }] },
+    ] as Parameters<typeof generateMasterSecret>[0][];
+    for (const options of invalid) {
+      await expect(generateMasterSecret(options)).rejects.toMatchObject({
+        code: "INVALID_PARAMETER",
+      });
+    }
+  });
+});
+
+describe("JSON representation", () => {
+  const groups = [
+    [1, 1, "My Primary"],
+    [1, 1, "My Secondary"],
+    [3, 5, "Friends"],
+  ];
+
+  it("should round trip the share tree", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: groups,
+      title: "My wallet",
+    });
+
+    const json = slip.toJSON();
+    expect(json.version).toBe(1);
+    expect(json.identifier).toBe(
+      inspectShare(slip.root.mnemonics[0]).identifier,
+    );
+    expect(json.groups.map((group) => group.memberThreshold)).toEqual([
+      1, 1, 3,
+    ]);
+
+    const restored = Slip39.fromJSON(JSON.stringify(slip));
+    expect(restored.toJSON()).toEqual(json);
+    expect(restored.identifier).toEqual(slip.identifier);
+    expect(restored.root.description).toBe("My wallet");
+    expect(restored.fromPath("r/2").description).toBe("Friends");
+    expect(restored.fromPath("r/2/4").mnemonic).toBe(
+      slip.fromPath("r/2/4").mnemonic,
+    );
+
+    const mnemonics = restored.fromPath("r/0").mnemonics;
+    mnemonics.push(...restored.fromPath("r/2").mnemonics.slice(0, 3));
+    const secret = await Slip39.recoverSecret(mnemonics);
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+  });
+
+  it("should round trip extended and partial trees", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groups: [[2, 3, "Family"]],
+    });
+    const extended = await Slip39.extendGroups(
+      slip.fromPath("r/0").mnemonics.slice(0, 2),
+      [[1, 1, "Lawyer"]],
+    );
+    const json = extended.toJSON();
+    expect(json.groups.map((group) => group.index)).toEqual([1]);
+    expect(Slip39.fromJSON(json).fromPath("r/1").description).toBe("Lawyer");
+
+    const partial = slip.toJSON();
+    partial.groups[0].members.splice(1, 1);
+    const restored = Slip39.fromJSON(partial);
+    expect(restored.fromPath("r/0").children.map((item) => item.index)).toEqual(
+      [0, 2],
+    );
+  });
+
+  it("should reject mnemonics which do not match the declared structure", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: groups,
+    });
+    const other = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: groups,
+    });
+    const json = () => slip.toJSON();
+
+    const swapped = json();
+    swapped.groups[2].members[0].mnemonic =
+      swapped.groups[2].members[1].mnemonic;
+    expect(() => Slip39.fromJSON(swapped)).toThrow(
+      expect.objectContaining({
+        code: "INVALID_SHARE_SET",
+        context: expect.objectContaining({
+          groupIndex: 2,
+          memberIndex: 0,
+          expected: 0,
+          actual: 1,
+        }),
+      }),
+    );
+
+    const foreign = json();
+    foreign.groups[0].members[0].mnemonic = other.fromPath("r/0/0").mnemonic;
+    expect(() => Slip39.fromJSON(foreign)).toThrow(
+      expect.objectContaining({ code: "MISMATCHED_IDENTIFIER" }),
+    );
+
+    const threshold = json();
+    threshold.groups[2].memberThreshold = 2;
+    expect(() => Slip39.fromJSON(threshold)).toThrow(
+      /does not match the declared member threshold \(2\)/,
+    );
+
+    const duplicate = json();
+    duplicate.groups[1] = duplicate.groups[0];
+    expect(() => Slip39.fromJSON(duplicate)).toThrow(
+      expect.objectContaining({ code: "INVALID_SHARE_SET" }),
+    );
+
+    const version = json();
+    version.version = 2;
+    expect(() => Slip39.fromJSON(version)).toThrow(
+      expect.objectContaining({ code: "INVALID_PARAMETER" }),
+    );
+
+    const invalid = json();
+    invalid.groups[0].members[0].mnemonic += " academic";
+    expect(() => Slip39.fromJSON(invalid)).toThrow(Slip39Error);
+  });
+
+  it("should reject malformed documents", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: groups,
+    });
+    const json = (): any => JSON.parse(JSON.stringify(slip));
+
+    const missingMnemonic = json();
+    delete missingMnemonic.groups[1].members[0].mnemonic;
+    const fractionalGroup = json();
+    fractionalGroup.groups[0].index = 0.5;
+    const stringThreshold = json();
+    stringThreshold.groups[2].memberThreshold = "3";
+    const stringMember = json();
+    stringMember.groups[2].members[1].index = "1";
+    const nullGroup = json();
+    nullGroup.groups[1] = null;
+    const nullMember = json();
+    nullMember.groups[2].members[0] = null;
+
+    const documents = [
+      "",
+      "{",
+      JSON.stringify(slip).slice(0, -1),
+      "null",
+      "[]",
+      "42",
+      JSON.stringify(missingMnemonic),
+      JSON.stringify(fractionalGroup),
+      JSON.stringify(stringThreshold),
+      JSON.stringify(stringMember),
+      JSON.stringify(nullGroup),
+      JSON.stringify(nullMember),
+    ];
+    documents.forEach((document) => {
+      expect(() => Slip39.fromJSON(document)).toThrow(
+        expect.objectContaining({ code: "INVALID_PARAMETER" }),
+      );
+    });
+  });
+});
+
+describe("Rebuilding a share tree from mnemonics", () => {
+  const groups = [
+    [1, 1, "My Primary"],
+    [2, 3, "Family"],
+    [3, 5, "Friends"],
+  ];
+
+  it("should rebuild the tree of fromArray()", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      passphrase: PASSPHRASE,
+      groupThreshold: 2,
+      groups: groups,
+    });
+
+    const mnemonics = slip.root.mnemonics.concat(
+      slip.fromPath("r/1").mnemonics,
+    );
+    shuffle(mnemonics);
+    const rebuilt = await Slip39.fromMnemonics(mnemonics, {
+      title: "Restored",
+      groups: ["My Primary", "Family", "Friends"],
+    });
+
+    expect(rebuilt.identifier).toEqual(slip.identifier);
+    expect(rebuilt.groupCount).toBe(3);
+    expect(rebuilt.groupThreshold).toBe(2);
+    expect(rebuilt.root.mnemonics).toEqual(slip.root.mnemonics);
+    expect(rebuilt.fromPath("r/2/4").mnemonic).toBe(
+      slip.fromPath("r/2/4").mnemonic,
+    );
+    expect(rebuilt.fromPath("r/1").description).toBe("Family");
+    expect(rebuilt.toJSON()).toEqual({ ...slip.toJSON(), title: "Restored" });
+
+    const secret = await Slip39.recoverSecret(
+      rebuilt
+        .fromPath("r/0")
+        .mnemonics.concat(rebuilt.fromPath("r/1").mnemonics),
+      PASSPHRASE,
+    );
+    expect(decodeHexString(secret)).toBe(MASTERSECRET);
+  });
+
+  it("should keep the member indices of a partial set", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: groups,
+    });
+    const mnemonics = [
+      slip.fromPath("r/0/0").mnemonic,
+      slip.fromPath("r/2/1").mnemonic,
+      slip.fromPath("r/2/3").mnemonic,
+      slip.fromPath("r/2/4").mnemonic,
+    ];
+
+    const rebuilt = await Slip39.fromMnemonics(mnemonics, {
+      cryptoProvider: createNodeCryptoProvider(nodeCrypto),
+    });
+    expect(rebuilt.root.description).toBe("");
+    expect(rebuilt.root.children.map((item) => item.index)).toEqual([0, 2]);
+    expect(rebuilt.fromPath("r/2").children.map((item) => item.index)).toEqual([
+      1, 3, 4,
+    ]);
+    expect(() => rebuilt.fromPath("r/2/0")).toThrow(InvalidPathError);
+  });
+
+  it("should reject inconsistent mnemonics", async () => {
+    const slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: groups,
+    });
+    const other = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: groups,
+    });
+
+    await expect(Slip39.fromMnemonics([])).rejects.toMatchObject({
+      code: "INVALID_PARAMETER",
+    });
+    await expect(
+      Slip39.fromMnemonics(slip.fromPath("r/2").mnemonics),
+    ).rejects.toMatchObject({ code: "INSUFFICIENT_GROUPS" });
+    await expect(
+      Slip39.fromMnemonics(
+        slip.fromPath("r/2").mnemonics.concat(other.fromPath("r/0/0").mnemonic),
+      ),
+    ).rejects.toMatchObject({ code: "MISMATCHED_IDENTIFIER" });
+
+    // A share of the same set parameters, but of another secret.
+    const forger = await Slip39.fromArray(encodeHexString("PONMLKJIHGFEDCBA"), {
+      identifier: slip.identifier,
+      groupThreshold: 2,
+      groups: groups,
+    });
+    const tampered = slip.root.mnemonics.map((mnemonic) =>
+      mnemonic === slip.fromPath("r/2/0").mnemonic
+        ? forger.fromPath("r/2/0").mnemonic
+        : mnemonic,
+    );
+    await expect(Slip39.fromMnemonics(tampered)).rejects.toMatchObject({
+      code: "INVALID_SHARE_SET",
+      context: { groupIndex: 2, memberIndex: 0 },
+    });
+  });
+});
+
+describe("Label-based paths", () => {
+  let slip: Slip39;
+
+  beforeAll(async () => {
+    slip = await Slip39.fromArray(MASTERSECRET_HEX, {
+      groupThreshold: 2,
+      groups: [
+        [1, 1, "Alice"],
+        [2, 3, "Family", "mom", "dad"],
+        [2, 2, "Friends/Work", "12", "Bob\\Eve"],
+      ],
+      title: "My wallet",
+    });
+  });
+
+  it("should resolve labels, indices and escaped labels", () => {
+    expect(slip.fromPath("r/Family")).toBe(slip.fromPath("r/1"));
+    expect(slip.fromPath("r/Family/mom")).toBe(slip.fromPath("r/1/0"));
+    expect(slip.fromPath("r/1/dad")).toBe(slip.fromPath("r/Family/1"));
+    expect(slip.fromPath("r/Friends\\/Work/\\12")).toBe(slip.fromPath("r/2/0"));
+    expect(slip.fromPath("r/Friends\\/Work/Bob\\\\Eve")).toBe(
+      slip.fromPath("r/2/1"),
+    );
+  });
+
+  it("should reject invalid, unknown and ambiguous paths", () => {
+    for (const path of ["", "x/0", "r/", "r//0", "r/0\\", "\\r/0"]) {
+      expect(() => slip.fromPath(path)).toThrow(InvalidPathError);
+    }
+    expect(() => slip.fromPath("r/0/0/0")).toThrow(/max depth/);
+    expect(() => slip.fromPath("r/Cousins")).toThrow(
+      "The path label (Cousins) does not match any of the children labels (Alice, Family, Friends/Work).",
+    );
+    // The unlabelled third member takes the label of the group.
+    expect(slip.fromPath("r/Family/Family")).toBe(slip.fromPath("r/1/2"));
+    expect(() => slip.fromPath("r/Friends\\/Work/12")).toThrow(
+      /path index \(12\)/,
+    );
+  });
+
+  it("should return the path of a node", async () => {
+    expect(slip.pathOf(slip.root)).toBe("r");
+    expect(slip.pathOf(slip.fromPath("r/1/1"))).toBe("r/1/1");
+    expect(slip.pathOf(slip.fromPath("r/1/1"), true)).toBe("r/Family/dad");
+    expect(slip.pathOf(slip.fromPath("r/2/0"), true)).toBe(
+      "r/Friends\\/Work/\\12",
+    );
+    expect(slip.pathOf(slip.fromPath("r/2/1"), true)).toBe(
+      "r/Friends\\/Work/Bob\\\\Eve",
+    );
+    expect(Slip39.escapePathLabel("2")).toBe("\\2");
+
+    for (const mnemonic of slip.root.mnemonics) {
+      const node = slip.root.children
+        .flatMap((group) => group.children)
+        .find((item) => item.mnemonic === mnemonic);
+      expect(slip.fromPath(slip.pathOf(node, true))).toBe(node);
+    }
+
+    const other = await Slip39.fromArray(MASTERSECRET_HEX);
+    expect(() => slip.pathOf(other.fromPath("r/0/0"))).toThrow(
+      "The node is not part of the share tree.",
+    );
+  });
+
+  it("should describe every node with its path and thresholds", () => {
+    expect(slip.root).toMatchObject({
+      path: "r",
+      groupThreshold: 2,
+      memberThreshold: undefined,
+    });
+    expect(slip.fromPath("r/Family")).toMatchObject({
+      path: "r/1",
+      groupThreshold: 2,
+      memberThreshold: 2,
+    });
+    expect(slip.fromPath("r/Alice/0")).toMatchObject({
+      path: "r/0/0",
+      groupThreshold: 2,
+      memberThreshold: 1,
+    });
+    for (const path of ["r/0/0", "r/1/2", "r/2/1"]) {
+      const node = slip.fromPath(path);
+      expect(node.path).toBe(path);
+      expect(inspectShare(node.mnemonic).memberThreshold).toBe(
+        node.memberThreshold,
+      );
+    }
+  });
+
+  it("should keep the member labels when rebuilding the tree", async () => {
+    const rebuilt = await Slip39.fromMnemonics(slip.root.mnemonics, {
+      groups: ["Alice", "Family"],
+      members: [[], ["mom"]],
+    });
+    expect(rebuilt.fromPath("r/Family/mom").path).toBe("r/1/0");
+    expect(rebuilt.fromPath("r/1/1").description).toBe("Family");
+    expect(rebuilt.fromPath("r/2/0").memberThreshold).toBe(2);
+
+    const restored = Slip39.fromJSON(JSON.stringify(slip));
+    expect(restored.fromPath("r/Family/dad").path).toBe("r/1/1");
+  });
+
+  it("should reject invalid member labels", async () => {
+    await expect(
+      Slip39.fromArray(MASTERSECRET_HEX, {
+        groups: [[2, 2, "Family", "mom", "dad", "sister"]],
+      }),
+    ).rejects.toThrow("has more member labels than members");
+    await expect(
+      Slip39.fromArray(MASTERSECRET_HEX, {
+        groups: [[2, 2, "Family", 3]],
+      }),
+    ).rejects.toThrow("must be strings");
+  });
+});